@@ -0,0 +1,28 @@
+import { resolveApproval, type ApprovalDecision } from "@/lib/approval/requests";
+
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const toolCallId = searchParams.get("toolCallId");
+
+  console.log(`Approval decision received for tool call ${toolCallId}`);
+
+  if (!toolCallId) {
+    return new Response("No toolCallId provided", { status: 400 });
+  }
+
+  let decision: ApprovalDecision;
+  try {
+    const body = (await request.json()) as Partial<ApprovalDecision>;
+    if (typeof body.approved !== "boolean") throw new Error("approved must be a boolean");
+    decision = { approved: body.approved, edits: body.edits };
+  } catch (error) {
+    console.error(`Invalid approval decision for ${toolCallId}`, error);
+    return new Response("Body must be { approved: boolean, edits?: object }", { status: 400 });
+  }
+
+  // The run may have stopped or the request timed out since the prompt was shown
+  if (!resolveApproval(toolCallId, decision)) {
+    return new Response("Tool call is not waiting for approval", { status: 404 });
+  }
+  return Response.json({ toolCallId, approved: decision.approved });
+}
@@ -0,0 +1,151 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerDesktopProvider } from "@/lib/desktop";
+import { createFakeProvider } from "@/lib/desktop/providers/fake";
+import type { MockModelStep } from "@/lib/ai/mock-model";
+import { getDesktopUnavailableMessage } from "@/lib/utils/error-helpers";
+import { POST } from "./route";
+
+// No request scope outside Next, so the secret vault sees a browser without one
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => undefined, set: () => {} }),
+}));
+
+const provider = createFakeProvider({
+  runCommand: (command) =>
+    command.includes("echo hello")
+      ? { stdout: "hello\n", stderr: "", exitCode: 0 }
+      : { stdout: "", stderr: "", exitCode: 0 },
+});
+
+const script: MockModelStep[] = [
+  {
+    text: "Clicking, then checking the shell.",
+    toolCalls: [
+      { toolName: "computer", args: { action: "left_click", coordinate: [100, 200] } },
+      { toolName: "bash", args: { command: "echo hello" } },
+    ],
+  },
+];
+
+/**
+ * Parse the data stream protocol into (type, value) pairs, e.g. ["9", toolCall]
+ */
+const parseStream = (body: string) =>
+  body
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.indexOf(":");
+      return [line.slice(0, separator), JSON.parse(line.slice(separator + 1))] as const;
+    });
+
+const chat = (body: Record<string, unknown>) =>
+  POST(
+    new Request("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        messages: [
+          { id: "m1", role: "user", content: "Do it", parts: [{ type: "text", text: "Do it" }] },
+        ],
+        ...body,
+      }),
+    }),
+  );
+
+describe("POST /api/chat with the fake desktop and scripted model", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "chat-route-"));
+    writeFileSync(join(dir, "script.json"), JSON.stringify(script));
+    vi.stubEnv("DESKTOP_PROVIDER", "fake-route-test");
+    vi.stubEnv("CHAT_MODEL_PROVIDER", "mock");
+    vi.stubEnv("MOCK_MODEL_SCRIPT", join(dir, "script.json"));
+    vi.stubEnv("BASH_POLICY", "");
+    vi.stubEnv("APPROVAL_POLICY", "");
+    registerDesktopProvider("fake-route-test", () => provider);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    provider.reset();
+  });
+
+  it("runs the scripted tool calls on the session's desktop", async () => {
+    const desktop = await provider.create({ resolution: [1024, 768] });
+    const before = provider.calls.length;
+
+    const response = await chat({ sandboxId: desktop.id });
+    expect(response.status).toBe(200);
+    const parts = parseStream(await response.text());
+
+    expect(parts).toContainEqual(["0", "Clicking, then checking the shell."]);
+    const toolCalls = parts.filter(([type]) => type === "9").map(([, value]) => value.toolName);
+    expect(toolCalls).toEqual(["computer", "bash"]);
+
+    const results = parts.filter(([type]) => type === "a").map(([, value]) => value.result);
+    expect(results).toContainEqual({ type: "text", text: "Left clicked at 100, 200" });
+    expect(results).toContainEqual(
+      expect.objectContaining({ type: "bash", stdout: "hello\n", exitCode: 0 }),
+    );
+
+    // Every call went to the session's desktop, and no other desktop was created
+    const calls = provider.calls.slice(before);
+    const methods = calls.map((call) => call.method);
+    expect(methods).toEqual(expect.arrayContaining(["moveMouse", "click", "commands.run"]));
+    expect(methods).not.toContain("create");
+    expect(calls.every((call) => call.desktopId === desktop.id)).toBe(true);
+  });
+
+  it.each([
+    ["a zero size", { x: 0, y: 0 }],
+    ["a negative size", { x: -1024, y: 768 }],
+    ["a size that isn't a preset", { x: 1000, y: 700 }],
+    ["a malformed value", "1024x768"],
+  ])("refuses a resolution with %s", async (_, resolution) => {
+    const desktop = await provider.create({ resolution: [1024, 768] });
+    const before = provider.calls.length;
+
+    const response = await chat({ sandboxId: desktop.id, resolution });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: `Unsupported resolution ${JSON.stringify(resolution)}`,
+    });
+    expect(provider.calls.slice(before)).toEqual([]);
+  });
+
+  it.each([
+    ["no desktop", undefined, null, /isn't running yet/],
+    ["a paused desktop", "pause", "paused", /paused\. Resume it/],
+    ["a stopped desktop", "kill", "expired", /expired/],
+  ] as const)(
+    "refuses a chat with %s without creating or resuming one",
+    async (_, setup, state, message) => {
+      let sandboxId: string | undefined;
+      if (setup) {
+        sandboxId = (await provider.create({ resolution: [1024, 768] })).id;
+        await provider[setup](sandboxId);
+      }
+      const before = provider.calls.length;
+
+      const response = await chat({ sandboxId });
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body).toMatchObject({ code: "desktop-unavailable", state });
+      expect(getDesktopUnavailableMessage(new Error(JSON.stringify(body)))).toMatch(message);
+
+      expect(provider.calls.slice(before)).toEqual([]);
+      if (sandboxId) {
+        expect(await provider.getState(sandboxId)).toBe(setup === "pause" ? "paused" : null);
+      }
+    },
+  );
+});
@@ -1,46 +1,167 @@
-import { anthropic } from "@ai-sdk/anthropic";
-import { streamText, UIMessage } from "ai";
-import { killDesktop } from "@/lib/e2b/utils";
-import { bashTool, computerTool } from "@/lib/e2b/tool";
+import { createDataStreamResponse, streamText, UIMessage } from "ai";
+import { getChatModel } from "@/lib/ai/models";
+import { createApprovalRequester } from "@/lib/approval/requests";
+import { secretPlaceholder } from "@/lib/secrets/placeholders";
+import { createSecretScope, getSecretOwner } from "@/lib/secrets/vault";
+import { getDesktopState, releaseDesktopInputs } from "@/lib/e2b/utils";
+import {
+  accessibilityTreeTool,
+  bashTool,
+  browserTool,
+  computerTool,
+  processTool,
+  textEditorTool,
+  waitUntilStableTool,
+  zoomTool,
+} from "@/lib/e2b/tool";
 import { prunedMessages } from "@/lib/utils";
+import { DESKTOP_UNAVAILABLE } from "@/lib/utils/error-helpers";
+import {
+  isResolutionPreset,
+  type AutoScreenshotMode,
+  type SandboxState,
+  type ScreenResolution,
+} from "@/lib/types/sessions";
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 300;
 
 export async function POST(req: Request) {
-  const { messages, sandboxId }: { messages: UIMessage[]; sandboxId: string } =
-    await req.json();
+  const {
+    messages,
+    sandboxId,
+    resolution,
+    maxWaitSeconds,
+    autoScreenshot,
+  }: {
+    messages: UIMessage[];
+    sandboxId?: string;
+    resolution?: ScreenResolution;
+    maxWaitSeconds?: number;
+    autoScreenshot?: AutoScreenshotMode;
+  } = await req.json();
+  // Every tool scales coordinates by it, so a bad value would send clicks to NaN
+  if (resolution !== undefined && !isResolutionPreset(resolution)) {
+    return new Response(
+      JSON.stringify({ error: `Unsupported resolution ${JSON.stringify(resolution)}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+  // Placeholders are resolved from this browser's vault inside the tools
+  const secrets = createSecretScope(await getSecretOwner());
+  const secretNames = secrets.names();
+
   try {
-    const result = streamText({
-      model: anthropic("claude-sonnet-4-5-20250929"), // Using Sonnet for computer use
-      system:
-        "You are a helpful assistant with access to a computer. " +
-        "Use the computer tool to help the user with their requests. " +
-        "Use the bash tool to execute commands on the computer. You can create files and folders using the bash tool. Always prefer the bash tool where it is viable for the task. " +
-        "Be sure to advise the user when waiting is necessary. " +
-        "If the browser opens with a setup wizard, YOU MUST IGNORE IT and move straight to the next step (e.g. input the url in the search bar).",
-      messages: prunedMessages(messages),
-      tools: { computer: computerTool(sandboxId), bash: bashTool(sandboxId) },
-      providerOptions: {
-        anthropic: { cacheControl: { type: "ephemeral" } },
-      },
+    // Tools never create desktops: without a running one they would start
+    // untracked sandboxes or silently resume a paused session
+    const state = sandboxId ? await getDesktopState(sandboxId) : null;
+    if (!sandboxId || state !== "running") {
+      return desktopUnavailable(state);
+    }
+
+    // Stopping in the UI aborts the request: cancel running tools and let go of held input
+    req.signal.addEventListener("abort", () => {
+      releaseDesktopInputs(sandboxId).catch((error) => {
+        console.error("Failed to release desktop inputs:", error);
+      });
     });
 
-    // Create response stream
-    const response = result.toDataStreamResponse({
-      getErrorMessage(error) {
+    // Tool output is streamed alongside the model's response as data parts
+    return createDataStreamResponse({
+      execute: (dataStream) => {
+        // Calls held by the approval policy are announced on the data stream too
+        const requestApproval = createApprovalRequester((data) => dataStream.writeData(data));
+        const result = streamText({
+          model: getChatModel(), // Sonnet for computer use, or the scripted mock model
+          system:
+            "You are a helpful assistant with access to a computer. " +
+            "Use the computer tool to help the user with their requests. " +
+            "Use the bash tool to execute commands on the computer. You can create files and folders using the bash tool. Always prefer the bash tool where it is viable for the task. " +
+            "The bash shell is persistent: the working directory, exported variables, functions, aliases and set options carry over between calls, so don't repeat `cd` on every command. A command that times out or is stopped doesn't keep its shell changes. Pass restart: true to start from a fresh shell. " +
+            "Bash commands time out after a minute - start dev servers, test suites and other long commands with the process tool, then poll or wait on the returned process id. " +
+            "Use the str_replace_editor tool to view, create and edit files instead of sed or heredocs in bash. " +
+            "Some action results include a screenshot taken just after the action - use it instead of taking another screenshot. " +
+            "For web pages, use the browser tool to navigate, read the page and click or fill elements by CSS selector; fall back to the computer tool for other applications or when selectors fail. " +
+            "When you do click pixels, use accessibility_tree to get the bounds of form fields and buttons instead of guessing coordinates from a screenshot. " +
+            "Use the zoom tool to read small text such as table cells or form validation messages before acting on it. " +
+            "After an action that loads a page or opens a window, use wait_until_stable instead of taking screenshots repeatedly. " +
+            "Be sure to advise the user when waiting is necessary. " +
+            "Some actions need the user's approval before they run. If the user denies one, don't retry it or work around it - ask how to proceed. " +
+            (secretNames.length > 0
+              ? `The user saved these secrets: ${secretNames.join(", ")}. To enter one, write its placeholder (e.g. ${secretPlaceholder(secretNames[0])}) in the text of a computer type action, a bash command or a process start command - it is filled in when the action runs. You never see the values; output shows the placeholder instead. Placeholders don't work in other tools. `
+              : "") +
+            "If the browser opens with a setup wizard, YOU MUST IGNORE IT and move straight to the next step (e.g. input the url in the search bar).",
+          messages: prunedMessages(messages),
+          abortSignal: req.signal,
+          tools: {
+            computer: computerTool(
+              sandboxId,
+              resolution,
+              maxWaitSeconds,
+              autoScreenshot,
+              requestApproval,
+              secrets,
+            ),
+            wait_until_stable: waitUntilStableTool(sandboxId, resolution, maxWaitSeconds),
+            zoom: zoomTool(sandboxId, resolution),
+            accessibility_tree: accessibilityTreeTool(sandboxId, resolution, secrets),
+            bash: bashTool(
+              sandboxId,
+              resolution,
+              (data) => dataStream.writeData(data),
+              requestApproval,
+              secrets,
+            ),
+            process: processTool(sandboxId, resolution, requestApproval, secrets),
+            str_replace_editor: textEditorTool(sandboxId, resolution, secrets),
+            browser: browserTool(sandboxId, resolution, requestApproval, secrets),
+          },
+          providerOptions: {
+            anthropic: { cacheControl: { type: "ephemeral" } },
+          },
+        });
+
+        result.mergeIntoDataStream(dataStream);
+      },
+      onError(error) {
         console.error(error);
         return error instanceof Error ? error.message : String(error);
       },
     });
-
-    return response;
   } catch (error) {
     console.error("Chat API error:", error);
-    await killDesktop(sandboxId); // Force cleanup on error
+    // Keep the desktop: it belongs to the session, which may still be in use
+    if (sandboxId) {
+      await releaseDesktopInputs(sandboxId).catch((releaseError) => {
+        console.error("Failed to release desktop inputs:", releaseError);
+      });
+    }
     return new Response(JSON.stringify({ error: "Internal Server Error" }), {
       status: 500,
       headers: { "Content-Type": "application/json" },
     });
   }
 }
+
+/**
+ * Why a chat can't run, by the state of the session's desktop
+ */
+const UNAVAILABLE_MESSAGES: Partial<Record<SandboxState, string>> = {
+  paused: "The desktop is paused. Resume it to continue the chat.",
+  killed: "The desktop has been stopped. Start a new desktop to continue the chat.",
+  expired: "The desktop has expired. Start a new desktop to continue the chat.",
+};
+
+/**
+ * Refuse a chat whose session has no running desktop
+ * The client shows the message and refreshes the session's sandbox state.
+ */
+function desktopUnavailable(state: SandboxState | null): Response {
+  const error =
+    (state && UNAVAILABLE_MESSAGES[state]) ??
+    "The desktop isn't running yet. Wait for it to start, then try again.";
+  return new Response(
+    JSON.stringify({ error, code: DESKTOP_UNAVAILABLE, state }),
+    { status: 409, headers: { "Content-Type": "application/json" } },
+  );
+}
@@ -0,0 +1,18 @@
+import { getDesktopState } from "@/lib/e2b/utils";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  try {
+    const state = await getDesktopState(sandboxId);
+    return Response.json({ sandboxId, state });
+  } catch (error) {
+    console.error(`Failed to get state for desktop with ID: ${sandboxId}`, error);
+    return new Response("Failed to get desktop state", { status: 500 });
+  }
+}
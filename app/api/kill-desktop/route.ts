@@ -14,8 +14,8 @@ async function handleKillDesktop(request: Request) {
   }
 
   try {
-    await killDesktop(sandboxId);
-    return new Response("Desktop killed successfully", { status: 200 });
+    const state = await killDesktop(sandboxId);
+    return Response.json({ sandboxId, state });
   } catch (error) {
     console.error(`Failed to kill desktop with ID: ${sandboxId}`, error);
     return new Response("Failed to kill desktop", { status: 500 });
@@ -25,4 +25,4 @@ async function handleKillDesktop(request: Request) {
 // Handle POST requests
 export async function POST(request: Request) {
   return handleKillDesktop(request);
-}
\ No newline at end of file
+}
@@ -0,0 +1,21 @@
+import { killDesktopProcess } from "@/lib/e2b/utils";
+
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+  const processId = searchParams.get("processId");
+
+  console.log(`Kill process request received for ${processId} in ${sandboxId}`);
+
+  if (!sandboxId || !processId) {
+    return new Response("sandboxId and processId are required", { status: 400 });
+  }
+
+  try {
+    const process = await killDesktopProcess(sandboxId, processId);
+    return Response.json({ sandboxId, process });
+  } catch (error) {
+    console.error(`Failed to kill process ${processId} in ${sandboxId}`, error);
+    return new Response("Failed to kill process", { status: 500 });
+  }
+}
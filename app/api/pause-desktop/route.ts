@@ -0,0 +1,20 @@
+import { pauseDesktop } from "@/lib/e2b/utils";
+
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  console.log(`Pause desktop request received for ID: ${sandboxId}`);
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  try {
+    const state = await pauseDesktop(sandboxId);
+    return Response.json({ sandboxId, state });
+  } catch (error) {
+    console.error(`Failed to pause desktop with ID: ${sandboxId}`, error);
+    return new Response("Failed to pause desktop", { status: 500 });
+  }
+}
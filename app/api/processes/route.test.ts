@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { registerDesktopProvider, type DesktopCommandResult } from "@/lib/desktop";
+import { createFakeProvider } from "@/lib/desktop/providers/fake";
+import { processTool } from "@/lib/e2b/tool";
+import { createSecretScope, saveSecret } from "@/lib/secrets/vault";
+import { GET } from "./route";
+
+const SECRET = "hunter22";
+const PLACEHOLDER = "{{secret:api_token}}";
+
+const ok = (stdout: string): DesktopCommandResult => ({ stdout, stderr: "", exitCode: 0 });
+
+/**
+ * Command text the start script wrote to the process's `command` file
+ */
+let stored = "";
+
+/**
+ * Start scripts the desktop was asked to run
+ */
+const started: string[] = [];
+
+const provider = createFakeProvider({
+  runCommand: (command) => {
+    if (command.includes("setsid nohup")) {
+      started.push(command);
+      // The shell wrapper quotes the script once more
+      const script = command.replaceAll(`'\\''`, "'");
+      stored = script.match(/printf '%s' '([^']*)' > \S+\/command/)?.[1] ?? "";
+      return ok("");
+    }
+    if (command.includes("base64 -w0")) {
+      const encoded = Buffer.from(stored).toString("base64");
+      return ok(`p-test\t42\t1700000000000\t\t0\t1\t${encoded}\n`);
+    }
+    return ok("");
+  },
+});
+
+describe("GET /api/processes", () => {
+  beforeAll(() => {
+    vi.stubEnv("DESKTOP_PROVIDER", "fake-processes-test");
+    vi.stubEnv("BASH_POLICY", "");
+    vi.stubEnv("APPROVAL_POLICY", "");
+    registerDesktopProvider("fake-processes-test", () => provider);
+    saveSecret("processes-test-owner", "api_token", SECRET);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("lists commands with their placeholders, never the secret values", async () => {
+    const { id } = await provider.create({ resolution: [1024, 768] });
+    const secrets = createSecretScope("processes-test-owner");
+
+    await processTool(id, undefined, undefined, secrets).execute!(
+      { action: "start", command: `./deploy --token ${PLACEHOLDER}` },
+      { toolCallId: "call-1", messages: [] },
+    );
+    // The value is filled in for running the command, not for storing it
+    expect(started).toHaveLength(1);
+    expect(started[0]).toContain(`./deploy --token ${SECRET}`);
+
+    const response = await GET(new Request(`http://localhost/api/processes?sandboxId=${id}`));
+    expect(response.status).toBe(200);
+    const body = await response.text();
+
+    expect(JSON.parse(body).processes).toEqual([
+      expect.objectContaining({ id: "p-test", command: `./deploy --token ${PLACEHOLDER}` }),
+    ]);
+    expect(body).not.toContain(SECRET);
+  });
+});
@@ -0,0 +1,18 @@
+import { listDesktopProcesses } from "@/lib/e2b/utils";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  try {
+    const processes = await listDesktopProcesses(sandboxId);
+    return Response.json({ sandboxId, processes });
+  } catch (error) {
+    console.error(`Failed to list processes for ID: ${sandboxId}`, error);
+    return new Response("Failed to list processes", { status: 500 });
+  }
+}
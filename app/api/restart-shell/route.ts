@@ -0,0 +1,20 @@
+import { restartDesktopShell } from "@/lib/e2b/utils";
+
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const sandboxId = searchParams.get("sandboxId");
+
+  console.log(`Restart shell request received for ID: ${sandboxId}`);
+
+  if (!sandboxId) {
+    return new Response("No sandboxId provided", { status: 400 });
+  }
+
+  try {
+    await restartDesktopShell(sandboxId);
+    return Response.json({ sandboxId });
+  } catch (error) {
+    console.error(`Failed to restart shell for ID: ${sandboxId}`, error);
+    return new Response("Failed to restart shell", { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  deleteSecret,
+  ensureSecretOwner,
+  getSecretOwner,
+  listSecretNames,
+  saveSecret,
+} from "@/lib/secrets/vault";
+
+// Only names are ever returned; values stay on the server
+export async function GET() {
+  const owner = await ensureSecretOwner();
+  return Response.json({ names: listSecretNames(owner) });
+}
+
+export async function POST(request: Request) {
+  const owner = await ensureSecretOwner();
+
+  let name: string;
+  let value: string;
+  try {
+    const body = (await request.json()) as { name?: unknown; value?: unknown };
+    if (typeof body.name !== "string" || typeof body.value !== "string") {
+      throw new Error("name and value must be strings");
+    }
+    name = body.name.trim();
+    value = body.value;
+  } catch (error) {
+    console.error("Invalid secret", error);
+    return new Response("Body must be { name: string, value: string }", { status: 400 });
+  }
+
+  try {
+    saveSecret(owner, name, value);
+  } catch (error) {
+    return new Response(error instanceof Error ? error.message : String(error), { status: 400 });
+  }
+  console.log(`Saved secret ${name}`);
+  return Response.json({ names: listSecretNames(owner) });
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const name = searchParams.get("name");
+
+  if (!name) {
+    return new Response("No name provided", { status: 400 });
+  }
+
+  const owner = await getSecretOwner();
+  if (!owner || !deleteSecret(owner, name)) {
+    return new Response("No secret by that name", { status: 404 });
+  }
+  console.log(`Deleted secret ${name}`);
+  return Response.json({ names: listSecretNames(owner) });
+}
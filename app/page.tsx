@@ -15,8 +15,9 @@ import { useVNC } from '@/lib/hooks/use-vnc';
 import { useRateLimit } from '@/lib/hooks/use-rate-limit';
 import { useSessionLoader } from '@/lib/hooks/use-session-loader';
 import { useStorageQuota } from '@/lib/hooks/use-storage-quota';
+import { useSandboxLifecycle } from '@/lib/hooks/use-sandbox-lifecycle';
 import { DesktopLayout, MobileLayout } from '@/components/layouts';
-import { isRateLimitError } from '@/lib/utils/error-helpers';
+import { getDesktopUnavailableMessage, isRateLimitError } from '@/lib/utils/error-helpers';
 
 function ChatContent() {
   // Scroll refs
@@ -37,6 +38,12 @@ function ChatContent() {
   // VNC management
   const { streamUrl, sandboxId, isLoading: vncLoading, isInitializing, refresh: refreshDesktop } = useVNC(activeSession);
 
+  // Sandbox lifecycle (pause/resume/kill)
+  const { resume: resumeSandbox, refreshStates } = useSandboxLifecycle();
+  const resumeDesktop = () => {
+    if (activeSession) resumeSandbox(activeSession);
+  };
+
   // Rate limiting
   const { state: rateLimitState, handleRateLimit, cancel: cancelRateLimit } = useRateLimit();
 
@@ -53,6 +60,7 @@ function ChatContent() {
     handleInputChange,
     handleSubmit,
     status,
+    data: chatData,
     stop: stopGeneration,
     append,
     setMessages: setChatMessages,
@@ -61,6 +69,9 @@ function ChatContent() {
     initialMessages,
     body: {
       sandboxId: activeSession?.sandboxId || sandboxId || undefined,
+      resolution: activeSession?.resolution,
+      maxWaitSeconds: activeSession?.maxWaitSeconds,
+      autoScreenshot: activeSession?.autoScreenshot,
     },
     maxSteps: 30,
     onError: (error) => {
@@ -72,6 +83,14 @@ function ChatContent() {
         saveSessionMessages(activeSession.id, chatMessages);
       }
 
+      // The desktop was paused, stopped or expired: say so and pick up its current state
+      const desktopUnavailable = getDesktopUnavailableMessage(error);
+      if (desktopUnavailable) {
+        toast.error(desktopUnavailable, { richColors: true, position: 'top-center' });
+        refreshStates();
+        return;
+      }
+
       // Handle rate limiting
       if (isRateLimitError(error)) {
         console.log('Handling rate limit error, retry will happen after countdown');
@@ -159,8 +178,8 @@ function ChatContent() {
     };
   }, [chatMessages, activeSession, saveSessionMessages]);
 
-  // Track events from messages
-  useEventTracker(chatMessages, status);
+  // Track events from messages, plus bash output streamed as data parts
+  useEventTracker(chatMessages, status, chatData);
 
   // Save events to session - use ref to prevent infinite loop
   const eventsRef = useRef<typeof eventStore.events>([]);
@@ -249,8 +268,10 @@ function ChatContent() {
         onCancelRateLimit={cancelRateLimit}
         streamUrl={streamUrl}
         sandboxId={sandboxId}
+        sandboxState={activeSession?.sandboxState ?? null}
         vncLoading={vncLoading}
         onRefreshDesktop={refreshDesktop}
+        onResumeDesktop={resumeDesktop}
         selectedEvent={selectedEvent}
       />
 
@@ -271,7 +292,9 @@ function ChatContent() {
         onCancelRateLimit={cancelRateLimit}
         streamUrl={streamUrl}
         sandboxId={sandboxId}
+        sandboxState={activeSession?.sandboxState ?? null}
         onRefreshDesktop={refreshDesktop}
+        onResumeDesktop={resumeDesktop}
         activeTab={activeTab}
         onTabChange={setActiveTab}
         sessionSidebarCollapsed={sessionSidebarCollapsed}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { AgentEvent } from '@/lib/types/events';
+import { getEditableApprovalFields } from '@/lib/types/events';
+
+/**
+ * Approve, deny or edit a tool call held by the approval policy
+ * The decision is sent to the waiting call; the event records it once the result arrives.
+ */
+export function ApprovalPrompt({ event, reason }: { event: AgentEvent; reason: string }) {
+  const payload = event.payload as unknown as Record<string, unknown>;
+  const fields = getEditableApprovalFields(payload);
+  const [editing, setEditing] = useState(false);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const decide = async (approved: boolean) => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/approve-tool-call?toolCallId=${encodeURIComponent(event.id)}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ approved, edits: approved && editing ? edits : undefined }),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+    } catch (error) {
+      toast.error('Failed to send the decision', {
+        description: error instanceof Error ? error.message : String(error),
+        duration: 5000,
+      });
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="flex flex-col gap-2 p-2 rounded-sm border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-950"
+      // Keep clicks in the prompt from selecting the card
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2 text-xs text-amber-800 dark:text-amber-200">
+        <ShieldAlert className="w-4 h-4 shrink-0" />
+        <span>Needs your approval: {reason}</span>
+      </div>
+
+      {editing &&
+        fields.map((field) => (
+          <label key={field} className="flex flex-col gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+            {field}
+            <textarea
+              className="font-mono text-xs p-2 rounded-sm border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+              rows={Math.min(String(payload[field]).split('\n').length, 6)}
+              value={edits[field] ?? String(payload[field])}
+              onChange={(e) => setEdits((prev) => ({ ...prev, [field]: e.target.value }))}
+              disabled={submitting}
+            />
+          </label>
+        ))}
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" className="h-7" onClick={() => decide(true)} disabled={submitting}>
+          {editing ? 'Run edited' : 'Approve'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7"
+          onClick={() => decide(false)}
+          disabled={submitting}
+        >
+          Deny
+        </Button>
+        {fields.length > 0 && !editing && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7"
+            onClick={() => setEditing(true)}
+            disabled={submitting}
+          >
+            Edit
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useActiveSession } from '@/lib/hooks/use-session';
+import { useAgentStatus } from '@/lib/hooks/use-event-store';
+import { cn } from '@/lib/utils';
+import type { BackgroundProcess } from '@/lib/desktop/processes';
+import { RefreshCw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+/**
+ * Background processes of the active session's sandbox, with kill buttons
+ */
+export function BackgroundProcesses() {
+  const activeSession = useActiveSession();
+  const agentStatus = useAgentStatus();
+  const sandboxId = activeSession?.sandboxState === 'running' ? activeSession.sandboxId : null;
+  const [processes, setProcesses] = useState<BackgroundProcess[]>([]);
+  const [killingId, setKillingId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!sandboxId) {
+      setProcesses([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/processes?sandboxId=${encodeURIComponent(sandboxId)}`);
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const data = (await response.json()) as { processes: BackgroundProcess[] };
+      setProcesses(data.processes);
+    } catch (error) {
+      console.warn('Failed to list background processes:', error);
+    }
+  }, [sandboxId]);
+
+  // Refresh on mount, whenever the agent finishes a step, and on a timer
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh, agentStatus]);
+
+  const handleKill = async (processId: string) => {
+    if (!sandboxId) return;
+    setKillingId(processId);
+    try {
+      const response = await fetch(
+        `/api/kill-process?sandboxId=${encodeURIComponent(sandboxId)}&processId=${encodeURIComponent(processId)}`,
+        { method: 'POST' },
+      );
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      await refresh();
+    } catch (error) {
+      toast.error('Failed to kill process', {
+        description: error instanceof Error ? error.message : String(error),
+        duration: 5000,
+      });
+    } finally {
+      setKillingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-semibold text-zinc-700 dark:text-zinc-300">
+          Background Processes ({processes.length})
+        </h4>
+        <Button
+          onClick={refresh}
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          disabled={!sandboxId}
+          title="Refresh processes"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </Button>
+      </div>
+      {processes.length === 0 ? (
+        <div className="text-xs text-zinc-500 dark:text-zinc-400 p-2 text-center">
+          No background processes
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-32 overflow-y-auto">
+          {processes.map((process) => (
+            <div
+              key={process.id}
+              className="flex items-center gap-2 p-2 bg-zinc-50 dark:bg-zinc-800 rounded text-xs"
+            >
+              <div
+                className={cn(
+                  'w-2 h-2 rounded-full shrink-0',
+                  process.status === 'running' && 'bg-amber-500',
+                  process.status === 'exited' &&
+                    (process.exitCode === 0 ? 'bg-green-500' : 'bg-red-500'),
+                  process.status === 'killed' && 'bg-zinc-400',
+                )}
+              />
+              <span className="font-mono text-zinc-600 dark:text-zinc-400 shrink-0">
+                {process.id}
+              </span>
+              <span className="font-mono text-zinc-700 dark:text-zinc-300 flex-1 truncate" title={process.command}>
+                {process.command}
+              </span>
+              <span className="text-zinc-500 dark:text-zinc-400 shrink-0">
+                {process.status === 'exited' && process.exitCode !== null
+                  ? `exit ${process.exitCode}`
+                  : process.status}
+              </span>
+              {process.status === 'running' && (
+                <Button
+                  onClick={() => handleKill(process.id)}
+                  size="sm"
+                  variant="ghost"
+                  className="h-5 w-5 p-0 shrink-0"
+                  disabled={killingId === process.id}
+                  title="Kill process"
+                >
+                  <Square className="w-3 h-3 text-red-600 dark:text-red-400" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,10 +10,18 @@ import {
 import { useEventStore } from '@/lib/hooks/use-event-store';
 import { useSessions } from '@/lib/hooks/use-session';
 import { cn } from '@/lib/utils';
-import { ChevronDown, ChevronUp, Download, Filter, X, Activity, MessageSquare } from 'lucide-react';
+import { ChevronDown, ChevronUp, CircleDot, Download, Filter, X, Activity, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import type { ActionType } from '@/lib/types/events';
-import { isComputerEvent, isBashEvent } from '@/lib/types/events';
+import type { ActionType, EventStatus } from '@/lib/types/events';
+import {
+  createInitialEventCounts,
+  isComputerEvent,
+  isBashEvent,
+  isProcessEvent,
+  isTextEditorEvent,
+  isBrowserEvent,
+} from '@/lib/types/events';
+import { BackgroundProcesses } from '@/components/background-processes';
 
 /**
  * Debug panel component
@@ -22,6 +30,7 @@ export function DebugPanel() {
   const [isExpanded, setIsExpanded] = useState(false);
   const [filterType, setFilterType] = useState<ActionType | 'all'>('all');
   const [filterSession, setFilterSession] = useState<string | 'all'>('all');
+  const [filterStatus, setFilterStatus] = useState<EventStatus | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
 
   const events = useEvents();
@@ -53,10 +62,24 @@ export function DebugPanel() {
         if (isBashEvent(event)) {
           return filterType === 'bash';
         }
+        if (isProcessEvent(event)) {
+          return filterType === 'process';
+        }
+        if (isTextEditorEvent(event)) {
+          return filterType === 'text_editor';
+        }
+        if (isBrowserEvent(event)) {
+          return filterType === 'browser';
+        }
         return false;
       });
     }
 
+    // Filter by status, e.g. commands blocked by the command policy
+    if (filterStatus !== 'all') {
+      filtered = filtered.filter((event) => event.status === filterStatus);
+    }
+
     // Filter by search query
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
@@ -73,14 +96,45 @@ export function DebugPanel() {
             event.id.toLowerCase().includes(query)
           );
         }
+        if (isProcessEvent(event)) {
+          return (
+            (event.payload.command ?? '').toLowerCase().includes(query) ||
+            (event.payload.process_id ?? '').toLowerCase().includes(query) ||
+            event.id.toLowerCase().includes(query)
+          );
+        }
+        if (isTextEditorEvent(event)) {
+          return (
+            event.payload.path.toLowerCase().includes(query) ||
+            event.payload.command.toLowerCase().includes(query) ||
+            event.id.toLowerCase().includes(query)
+          );
+        }
+        if (isBrowserEvent(event)) {
+          return (
+            event.payload.action.toLowerCase().includes(query) ||
+            (event.payload.url ?? '').toLowerCase().includes(query) ||
+            (event.payload.selector ?? '').toLowerCase().includes(query) ||
+            event.id.toLowerCase().includes(query)
+          );
+        }
         return false;
       });
     }
 
     return filtered;
-  }, [events, filterType, filterSession, searchQuery, sessions]);
+  }, [events, filterType, filterSession, filterStatus, searchQuery, sessions]);
+
+  // Events per status, for the status filter
+  const statusCounts = useMemo(() => {
+    const result: Record<EventStatus, number> = { pending: 0, complete: 0, error: 0, blocked: 0 };
+    events.forEach((event) => {
+      result[event.status]++;
+    });
+    return result;
+  }, [events]);
 
-  // Get unique action types for filter
+  // Get action types that occurred, in the same order as the counts
   const actionTypes = useMemo(() => {
     const types = new Set<ActionType>();
     events.forEach((event) => {
@@ -88,9 +142,17 @@ export function DebugPanel() {
         types.add(event.payload.action);
       } else if (isBashEvent(event)) {
         types.add('bash');
+      } else if (isProcessEvent(event)) {
+        types.add('process');
+      } else if (isTextEditorEvent(event)) {
+        types.add('text_editor');
+      } else if (isBrowserEvent(event)) {
+        types.add('browser');
       }
     });
-    return Array.from(types);
+    return (Object.keys(createInitialEventCounts()) as ActionType[]).filter((type) =>
+      types.has(type),
+    );
   }, [events]);
 
   const handleExport = () => {
@@ -183,6 +245,21 @@ export function DebugPanel() {
                 ))}
               </select>
             </div>
+            <div className="flex items-center gap-2 flex-1 min-w-[150px]">
+              <CircleDot className="w-4 h-4 text-zinc-500 dark:text-zinc-400 shrink-0" />
+              <select
+                value={filterStatus}
+                onChange={(e) => setFilterStatus(e.target.value as EventStatus | 'all')}
+                className="text-sm border border-zinc-300 dark:border-zinc-700 rounded px-2 py-1 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 flex-1 min-w-0"
+              >
+                <option value="all">All Statuses</option>
+                {(Object.keys(statusCounts) as EventStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {status} ({statusCounts[status]})
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="flex items-center gap-2 flex-1 min-w-[150px]">
               <input
                 type="text"
@@ -234,6 +311,9 @@ export function DebugPanel() {
             </div>
           </div>
 
+          {/* Background Processes */}
+          <BackgroundProcesses />
+
           {/* Event Timeline */}
           <div>
             <h4 className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
@@ -256,6 +336,7 @@ export function DebugPanel() {
                         event.status === 'complete' && 'bg-green-500',
                         event.status === 'pending' && 'bg-amber-500',
                         event.status === 'error' && 'bg-red-500',
+                        event.status === 'blocked' && 'bg-orange-500',
                       )}
                     />
                     <span className="font-mono text-zinc-600 dark:text-zinc-400 shrink-0 w-24 truncate">
@@ -266,7 +347,13 @@ export function DebugPanel() {
                         ? event.payload.action
                         : isBashEvent(event)
                           ? `bash: ${event.payload.command.slice(0, 30)}...`
-                          : 'unknown'}
+                          : isProcessEvent(event)
+                            ? `process ${event.payload.action}: ${event.payload.command?.slice(0, 30) ?? event.payload.process_id ?? ''}`
+                            : isTextEditorEvent(event)
+                              ? `${event.payload.command}: ${event.payload.path}`
+                              : isBrowserEvent(event)
+                                ? `browser ${event.payload.action}: ${event.payload.url ?? event.payload.selector ?? ''}`
+                                : 'unknown'}
                     </span>
                     <span className="text-zinc-500 dark:text-zinc-400 shrink-0">
                       {new Date(event.timestamp).toLocaleTimeString()}
@@ -16,6 +16,7 @@ import {
 } from '@/components/ui/resizable';
 import { cn } from '@/lib/utils';
 import type { UIMessage } from 'ai';
+import type { SandboxState } from '@/lib/types/sessions';
 import type { RefObject } from 'react';
 import type { AgentEvent } from '@/lib/types/events';
 
@@ -43,8 +44,10 @@ interface DesktopLayoutProps {
   onCancelRateLimit: () => void;
   streamUrl: string | null;
   sandboxId: string | null;
+  sandboxState: SandboxState | null;
   vncLoading: boolean;
   onRefreshDesktop: () => void;
+  onResumeDesktop: () => void;
   selectedEvent: AgentEvent | null;
 }
 
@@ -66,8 +69,10 @@ export function DesktopLayout({
   onCancelRateLimit,
   streamUrl,
   sandboxId,
+  sandboxState,
   vncLoading,
   onRefreshDesktop,
+  onResumeDesktop,
   selectedEvent,
 }: DesktopLayoutProps) {
   return (
@@ -194,7 +199,9 @@ export function DesktopLayout({
                 streamUrl={streamUrl}
                 sandboxId={sandboxId}
                 onRefresh={onRefreshDesktop}
+                onResume={onResumeDesktop}
                 isInitializing={isInitializing}
+                sandboxState={sandboxState}
               />
             </div>
 
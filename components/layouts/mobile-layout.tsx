@@ -11,6 +11,7 @@ import { VNCViewer } from '@/components/vnc-viewer';
 import { MessageSquare, Monitor } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { UIMessage } from 'ai';
+import type { SandboxState } from '@/lib/types/sessions';
 import type { RefObject } from 'react';
 
 interface RateLimitState {
@@ -35,7 +36,9 @@ interface MobileLayoutProps {
   onCancelRateLimit: () => void;
   streamUrl: string | null;
   sandboxId: string | null;
+  sandboxState: SandboxState | null;
   onRefreshDesktop: () => void;
+  onResumeDesktop: () => void;
   activeTab: 'chat' | 'vnc';
   onTabChange: (tab: 'chat' | 'vnc') => void;
   sessionSidebarCollapsed: boolean;
@@ -58,7 +61,9 @@ export function MobileLayout({
   onCancelRateLimit,
   streamUrl,
   sandboxId,
+  sandboxState,
   onRefreshDesktop,
+  onResumeDesktop,
   activeTab,
   onTabChange,
   sessionSidebarCollapsed,
@@ -195,12 +200,14 @@ export function MobileLayout({
 
         {/* VNC Viewer - Always rendered but hidden when chat tab is active */}
         <div className={cn('h-full', activeTab !== 'vnc' && 'hidden')}>
-          {streamUrl ? (
+          {streamUrl || sandboxState === 'paused' || sandboxState === 'killed' ? (
             <VNCViewer
               streamUrl={streamUrl}
               sandboxId={sandboxId}
               onRefresh={onRefreshDesktop}
+              onResume={onResumeDesktop}
               isInitializing={isInitializing}
+              sandboxState={sandboxState}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-zinc-500 dark:text-zinc-400">
@@ -0,0 +1,129 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { KeyRound, Trash2 } from 'lucide-react';
+import { secretPlaceholder } from '@/lib/secrets/placeholders';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/**
+ * Secrets in this browser's vault on the server
+ * Values are sent once when saved and never come back; the agent uses them through placeholders.
+ */
+export function SecretsPanel() {
+  const [names, setNames] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const send = useCallback(async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, init);
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    const data = (await response.json()) as { names: string[] };
+    setNames(data.names);
+  }, []);
+
+  useEffect(() => {
+    send('/api/secrets').catch((error) => {
+      console.warn('Failed to list secrets:', error);
+    });
+  }, [send]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await send('/api/secrets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), value }),
+      });
+      setName('');
+      setValue('');
+    } catch (error) {
+      toast.error('Failed to save secret', {
+        description: error instanceof Error ? error.message : String(error),
+        duration: 5000,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (secretName: string) => {
+    if (!window.confirm(`Delete the secret ${secretName}?`)) return;
+    setBusy(true);
+    try {
+      await send(`/api/secrets?name=${encodeURIComponent(secretName)}`, { method: 'DELETE' });
+    } catch (error) {
+      toast.error('Failed to delete secret', {
+        description: error instanceof Error ? error.message : String(error),
+        duration: 5000,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="flex items-center gap-1 mb-2 text-xs font-semibold text-zinc-700 dark:text-zinc-300">
+        <KeyRound className="w-3 h-3" />
+        Secrets ({names.length})
+      </h4>
+      {names.length > 0 && (
+        <div className="space-y-1 mb-2 max-h-32 overflow-y-auto">
+          {names.map((secretName) => (
+            <div
+              key={secretName}
+              className="flex items-center gap-2 px-2 py-1 bg-zinc-50 dark:bg-zinc-800 rounded text-xs"
+            >
+              <span
+                className="font-mono text-zinc-700 dark:text-zinc-300 flex-1 truncate"
+                title="The agent types this placeholder to enter the secret"
+              >
+                {secretPlaceholder(secretName)}
+              </span>
+              <Button
+                onClick={() => handleDelete(secretName)}
+                size="sm"
+                variant="ghost"
+                className="h-5 w-5 p-0 shrink-0"
+                disabled={busy}
+                title="Delete secret"
+              >
+                <Trash2 className="w-3 h-3 text-red-600 dark:text-red-400" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleSave} className="flex flex-col gap-1">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. jira_password"
+          className="h-7 text-xs md:text-xs"
+          disabled={busy}
+        />
+        <div className="flex gap-1">
+          <Input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="Value"
+            autoComplete="new-password"
+            className="h-7 text-xs md:text-xs"
+            disabled={busy}
+          />
+          <Button type="submit" size="sm" className="h-7" disabled={busy || !name.trim() || !value}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
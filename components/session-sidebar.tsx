@@ -1,10 +1,20 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSessions, useActiveSessionId, useSession } from '@/lib/hooks/use-session';
+import { useSandboxLifecycle } from '@/lib/hooks/use-sandbox-lifecycle';
 import { cn } from '@/lib/utils';
-import { Plus, Trash2, MessageSquare, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  AUTO_SCREENSHOT_MODES,
+  MAX_WAIT_PRESETS,
+  RESOLUTION_PRESETS,
+  type AutoScreenshotMode,
+  type ChatSession,
+  type SandboxState,
+} from '@/lib/types/sessions';
+import { Plus, Trash2, MessageSquare, ChevronLeft, ChevronRight, Pause, Play, PowerOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { SecretsPanel } from '@/components/secrets-panel';
 
 /**
  * Format timestamp to relative time or date
@@ -24,6 +34,40 @@ function formatSessionTime(timestamp: number): string {
   return new Date(timestamp).toLocaleDateString();
 }
 
+/**
+ * Label and indicator color for each sandbox state
+ */
+const SANDBOX_STATE_INFO: Record<SandboxState, { label: string; className: string }> = {
+  creating: { label: 'Creating', className: 'bg-blue-500 animate-pulse' },
+  running: { label: 'Running', className: 'bg-green-500' },
+  paused: { label: 'Paused', className: 'bg-amber-500' },
+  killed: { label: 'Stopped', className: 'bg-zinc-400' },
+  expired: { label: 'Expired', className: 'bg-red-500' },
+};
+
+/**
+ * Option labels for the auto screenshot setting
+ */
+const AUTO_SCREENSHOT_LABELS: Record<AutoScreenshotMode, string> = {
+  off: 'Off',
+  clicks: 'After clicks',
+  all: 'After any input',
+};
+
+/**
+ * Sandbox state indicator
+ */
+function SandboxStateBadge({ state }: { state: SandboxState | null }) {
+  if (!state) return null;
+  const info = SANDBOX_STATE_INFO[state];
+  return (
+    <span className="inline-flex items-center gap-1" title={`Sandbox ${info.label.toLowerCase()}`}>
+      <span className={cn('w-1.5 h-1.5 rounded-full', info.className)} />
+      {info.label}
+    </span>
+  );
+}
+
 /**
  * Session sidebar component
  */
@@ -36,8 +80,26 @@ export function SessionSidebar({
 } = {}) {
   const sessions = useSessions();
   const activeSessionId = useActiveSessionId();
-  const { createSession, deleteSession, setActiveSession } = useSession();
+  const {
+    createSession,
+    deleteSession,
+    setActiveSession,
+    updateSession,
+    state: sessionState,
+  } = useSession();
+  const { pause, resume, kill, refreshStates } = useSandboxLifecycle();
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [resolutionIndex, setResolutionIndex] = useState(0);
+  const hasRefreshedRef = useRef(false);
+  const activeSession = sessions.find((session) => session.id === activeSessionId) ?? null;
+
+  // Sync sandbox states with the provider once sessions are loaded
+  useEffect(() => {
+    if (sessionState.isLoading || hasRefreshedRef.current) return;
+    hasRefreshedRef.current = true;
+    refreshStates();
+  }, [sessionState.isLoading, refreshStates]);
   const [internalCollapsed, setInternalCollapsed] = useState(false);
   
   // Use external state if provided, otherwise use internal state
@@ -45,22 +107,49 @@ export function SessionSidebar({
   const setIsCollapsed = onToggleCollapse || setInternalCollapsed;
 
   const handleCreateSession = () => {
-    createSession();
+    createSession(undefined, null, RESOLUTION_PRESETS[resolutionIndex]);
   };
 
-  const handleDeleteSession = (e: React.MouseEvent, sessionId: string) => {
+  const handleDeleteSession = async (e: React.MouseEvent, session: ChatSession) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to delete this session?')) {
-      setDeletingId(sessionId);
-      deleteSession(sessionId);
-      setTimeout(() => setDeletingId(null), 300);
+    if (!window.confirm('Are you sure you want to delete this session? Its sandbox will be stopped.')) {
+      return;
     }
+    setDeletingId(session.id);
+    // Stop the sandbox first - a deleted session can't reach it anymore, so it would keep billing
+    if (!(await kill(session))) {
+      setDeletingId(null);
+      return;
+    }
+    deleteSession(session.id);
+    setTimeout(() => setDeletingId(null), 300);
   };
 
   const handleSelectSession = (sessionId: string) => {
     setActiveSession(sessionId);
   };
 
+  const handleSandboxAction = async (
+    e: React.MouseEvent,
+    session: ChatSession,
+    action: (session: ChatSession) => Promise<unknown>,
+  ) => {
+    e.stopPropagation();
+    setBusyId(session.id);
+    try {
+      await action(session);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleKillSandbox = (e: React.MouseEvent, session: ChatSession) => {
+    e.stopPropagation();
+    if (window.confirm('Stop this session\'s sandbox? Its desktop state will be lost.')) {
+      handleSandboxAction(e, session, kill);
+    }
+  };
+
   return (
     <div
       className={cn(
@@ -103,6 +192,20 @@ export function SessionSidebar({
             </Button>
           </div>
         </div>
+        {!isCollapsed && (
+          <select
+            value={resolutionIndex}
+            onChange={(e) => setResolutionIndex(Number(e.target.value))}
+            className="w-full h-8 px-2 text-xs rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+            title="Screen resolution for new sessions"
+          >
+            {RESOLUTION_PRESETS.map((preset, index) => (
+              <option key={`${preset.x}x${preset.y}`} value={index}>
+                {preset.x} × {preset.y}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Session List */}
@@ -119,6 +222,7 @@ export function SessionSidebar({
               {sessions.map((session) => {
                 const isActive = session.id === activeSessionId;
                 const isDeleting = deletingId === session.id;
+                const isBusy = busyId === session.id;
 
                 return (
                   <div
@@ -137,12 +241,56 @@ export function SessionSidebar({
                       <div className="text-sm font-medium truncate">
                         {session.name}
                       </div>
-                      <div className="text-xs text-zinc-500 dark:text-zinc-400">
-                        {formatSessionTime(session.createdAt)}
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400 flex items-center gap-2">
+                        <span>{formatSessionTime(session.createdAt)}</span>
+                        <span>{session.resolution.x}×{session.resolution.y}</span>
+                        <SandboxStateBadge state={session.sandboxState} />
                       </div>
                     </div>
+                    {session.sandboxId && (session.sandboxState === 'running' || session.sandboxState === 'paused') && (
+                      <div
+                        className={cn(
+                          'flex items-center opacity-0 group-hover:opacity-100 transition-opacity shrink-0',
+                          (isActive || isBusy) && 'opacity-100',
+                        )}
+                      >
+                        {session.sandboxState === 'running' ? (
+                          <Button
+                            onClick={(e) => handleSandboxAction(e, session, pause)}
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0"
+                            disabled={isBusy}
+                            title="Pause sandbox"
+                          >
+                            <Pause className="w-3 h-3" />
+                          </Button>
+                        ) : (
+                          <Button
+                            onClick={(e) => handleSandboxAction(e, session, resume)}
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0"
+                            disabled={isBusy}
+                            title="Resume sandbox"
+                          >
+                            <Play className="w-3 h-3" />
+                          </Button>
+                        )}
+                        <Button
+                          onClick={(e) => handleKillSandbox(e, session)}
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 w-6 p-0"
+                          disabled={isBusy}
+                          title="Stop sandbox"
+                        >
+                          <PowerOff className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    )}
                     <Button
-                      onClick={(e) => handleDeleteSession(e, session.id)}
+                      onClick={(e) => handleDeleteSession(e, session)}
                       size="sm"
                       variant="ghost"
                       className={cn(
@@ -161,6 +309,56 @@ export function SessionSidebar({
         </div>
       )}
 
+      {/* Active session settings */}
+      {!isCollapsed && activeSession && (
+        <div className="p-4 border-t border-zinc-200 dark:border-zinc-800">
+          <label className="flex items-center justify-between gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+            Max wait
+            <select
+              value={activeSession.maxWaitSeconds}
+              onChange={(e) =>
+                updateSession({ ...activeSession, maxWaitSeconds: Number(e.target.value) })
+              }
+              className="h-7 px-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+              title="Longest wait, key hold or wait for a stable screen the agent may use in this session"
+            >
+              {MAX_WAIT_PRESETS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds}s
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2 mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+            Auto screenshot
+            <select
+              value={activeSession.autoScreenshot}
+              onChange={(e) =>
+                updateSession({
+                  ...activeSession,
+                  autoScreenshot: e.target.value as AutoScreenshotMode,
+                })
+              }
+              className="h-7 px-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+              title="Attach a screenshot to the result of these actions, so the agent doesn't ask for one"
+            >
+              {AUTO_SCREENSHOT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {AUTO_SCREENSHOT_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {/* Secrets are shared by all sessions in this browser */}
+      {!isCollapsed && (
+        <div className="p-4 border-t border-zinc-200 dark:border-zinc-800">
+          <SecretsPanel />
+        </div>
+      )}
+
       {/* Collapsed View - Show active session icon only */}
       {isCollapsed && (
         <div className="flex-1 flex flex-col items-center py-4 gap-2">
@@ -3,20 +3,38 @@
 import Image from 'next/image';
 import { motion } from 'motion/react';
 import { cn } from '@/lib/utils';
-import type { AgentEvent, EventStatus } from '@/lib/types/events';
-import { isComputerEvent, isBashEvent } from '@/lib/types/events';
+import { ApprovalPrompt } from '@/components/approval-prompt';
+import type { AgentEvent, ApprovalStatus, EventStatus } from '@/lib/types/events';
+import {
+  isComputerEvent,
+  isBashEvent,
+  isProcessEvent,
+  isTextEditorEvent,
+  isBrowserEvent,
+} from '@/lib/types/events';
 import {
   Camera,
   CheckCircle,
   CircleSlash,
   Clock,
+  Cpu,
+  Crosshair,
+  Eye,
+  FilePen,
+  FilePlus,
+  Globe,
+  Hourglass,
   Keyboard,
   KeyRound,
+  ListTree,
   Loader2,
   MousePointer,
   MousePointerClick,
   ScrollText,
+  ShieldX,
   Terminal,
+  Undo2,
+  ZoomIn,
 } from 'lucide-react';
 
 /**
@@ -46,16 +64,34 @@ function getComputerActionInfo(action: string): {
       return { label: 'Left clicking', detail: '', icon: MousePointer };
     case 'right_click':
       return { label: 'Right clicking', detail: '', icon: MousePointerClick };
+    case 'middle_click':
+      return { label: 'Middle clicking', detail: '', icon: MousePointerClick };
     case 'double_click':
       return { label: 'Double clicking', detail: '', icon: MousePointerClick };
+    case 'triple_click':
+      return { label: 'Triple clicking', detail: '', icon: MousePointerClick };
+    case 'left_mouse_down':
+      return { label: 'Pressing mouse button', detail: '', icon: MousePointer };
+    case 'left_mouse_up':
+      return { label: 'Releasing mouse button', detail: '', icon: MousePointer };
     case 'mouse_move':
       return { label: 'Moving mouse', detail: '', icon: MousePointer };
+    case 'cursor_position':
+      return { label: 'Reading cursor position', detail: '', icon: Crosshair };
     case 'type':
       return { label: 'Typing', detail: '', icon: Keyboard };
     case 'key':
       return { label: 'Pressing key', detail: '', icon: KeyRound };
+    case 'hold_key':
+      return { label: 'Holding key', detail: '', icon: KeyRound };
     case 'wait':
       return { label: 'Waiting', detail: '', icon: Clock };
+    case 'wait_until_stable':
+      return { label: 'Waiting for screen to settle', detail: '', icon: Hourglass };
+    case 'zoom':
+      return { label: 'Zooming in', detail: '', icon: ZoomIn };
+    case 'accessibility_tree':
+      return { label: 'Reading accessibility tree', detail: '', icon: ListTree };
     case 'scroll':
       return { label: 'Scrolling', detail: '', icon: ScrollText };
     case 'left_click_drag':
@@ -65,6 +101,78 @@ function getComputerActionInfo(action: string): {
   }
 }
 
+/**
+ * Get action label for background process events
+ */
+function getProcessActionLabel(action: string): string {
+  switch (action) {
+    case 'start':
+      return 'Starting process';
+    case 'poll':
+      return 'Checking process';
+    case 'wait':
+      return 'Waiting for process';
+    case 'kill':
+      return 'Killing process';
+    case 'list':
+      return 'Listing processes';
+    default:
+      return action;
+  }
+}
+
+/**
+ * Get label and icon for text editor commands
+ */
+function getTextEditorInfo(command: string): { label: string; icon: typeof Camera } {
+  switch (command) {
+    case 'view':
+      return { label: 'Viewing', icon: Eye };
+    case 'create':
+      return { label: 'Creating file', icon: FilePlus };
+    case 'str_replace':
+      return { label: 'Editing file', icon: FilePen };
+    case 'insert':
+      return { label: 'Inserting into file', icon: FilePen };
+    case 'undo_edit':
+      return { label: 'Undoing edit', icon: Undo2 };
+    default:
+      return { label: command, icon: FilePen };
+  }
+}
+
+/**
+ * Get action label for browser events
+ */
+function getBrowserActionLabel(action: string): string {
+  switch (action) {
+    case 'navigate':
+      return 'Opening page';
+    case 'get_url':
+      return 'Checking page';
+    case 'get_text':
+      return 'Reading page text';
+    case 'get_dom':
+      return 'Reading page HTML';
+    case 'click':
+      return 'Clicking element';
+    case 'fill':
+      return 'Filling in field';
+    default:
+      return action;
+  }
+}
+
+/**
+ * Short note on what the user decided for a held call
+ */
+const APPROVAL_LABELS: Record<Exclude<ApprovalStatus, 'pending'>, string> = {
+  approved: 'approved',
+  edited: 'edited, then approved',
+  denied: 'denied',
+  expired: 'approval timed out',
+};
+
 /**
  * Format duration in milliseconds to human-readable string
  */
@@ -74,6 +182,19 @@ function formatDuration(duration?: number): string {
   return `${(duration / 1000).toFixed(1)}s`;
 }
 
+const LIVE_OUTPUT_LINES = 4;
+
+/**
+ * Last few non-empty lines of streamed output
+ */
+function tailLines(output: string, count: number): string {
+  return output
+    .split('\n')
+    .filter((line) => line.trim())
+    .slice(-count)
+    .join('\n');
+}
+
 /**
  * Tool call card component
  */
@@ -90,27 +211,40 @@ export function ToolCallCard({
   let ActionIcon: typeof Camera = Camera;
   let hasThumbnail = false;
   let thumbnailData: string | undefined;
+  let exitCode: number | undefined;
+  let linesAdded: number | undefined;
+  let linesRemoved: number | undefined;
+  let pageTitle: string | undefined;
+  let liveStdout = '';
+  let liveStderr = '';
 
   if (isComputerEvent(event)) {
-    const { action, coordinate, text, duration, scroll_amount, scroll_direction } =
+    const { action, coordinate, text, duration, scroll_amount, scroll_direction, region, app } =
       event.payload;
     const info = getComputerActionInfo(action);
     actionLabel = info.label;
     ActionIcon = info.icon;
 
     // Build action detail
-    if (coordinate) {
+    if (scroll_direction && scroll_amount) {
+      actionDetail = `${scroll_direction} by ${scroll_amount}`;
+      if (coordinate) {
+        actionDetail += ` at (${coordinate[0]}, ${coordinate[1]})`;
+      }
+    } else if (coordinate) {
       actionDetail = `(${coordinate[0]}, ${coordinate[1]})`;
     } else if (text) {
       actionDetail = `"${text}"`;
     } else if (duration) {
       actionDetail = `${duration}s`;
-    } else if (scroll_direction && scroll_amount) {
-      actionDetail = `${scroll_direction} by ${scroll_amount}`;
+    } else if (region) {
+      actionDetail = `(${region[0]}, ${region[1]}) to (${region[2]}, ${region[3]})`;
+    } else if (app) {
+      actionDetail = app;
     }
 
-    // Check for screenshot thumbnail
-    if (action === 'screenshot' && event.result?.type === 'image' && event.result.data) {
+    // Check for screenshot thumbnail, either requested or attached after the action
+    if (event.result?.data) {
       hasThumbnail = true;
       thumbnailData = event.result.data;
     }
@@ -121,11 +255,51 @@ export function ToolCallCard({
     if (event.payload.command.length > 40) {
       actionDetail += '...';
     }
+    exitCode = event.result?.bash?.exitCode;
+    if (event.liveOutput) {
+      liveStdout = tailLines(event.liveOutput.stdout, LIVE_OUTPUT_LINES);
+      liveStderr = tailLines(event.liveOutput.stderr, LIVE_OUTPUT_LINES);
+    }
+  } else if (isProcessEvent(event)) {
+    const { action, command, process_id } = event.payload;
+    actionLabel = getProcessActionLabel(action);
+    ActionIcon = Cpu;
+    actionDetail = command ? command.slice(0, 40) : (process_id ?? '');
+    if (command && command.length > 40) {
+      actionDetail += '...';
+    }
+    exitCode = event.result?.process?.exitCode ?? undefined;
+  } else if (isTextEditorEvent(event)) {
+    const info = getTextEditorInfo(event.payload.command);
+    actionLabel = info.label;
+    ActionIcon = info.icon;
+    // Keep the end of long paths, where the file name is
+    const { path } = event.payload;
+    actionDetail = path.length > 40 ? `...${path.slice(-40)}` : path;
+    const diff = event.result?.textEditor?.diff;
+    if (diff) {
+      linesAdded = diff.filter((line) => line.type === 'add').length;
+      linesRemoved = diff.filter((line) => line.type === 'remove').length;
+    }
+  } else if (isBrowserEvent(event)) {
+    const { action, url, selector } = event.payload;
+    actionLabel = getBrowserActionLabel(action);
+    ActionIcon = Globe;
+    actionDetail = (selector ?? url ?? '').slice(0, 40);
+    if ((selector ?? url ?? '').length > 40) {
+      actionDetail += '...';
+    }
+    pageTitle = event.result?.browser?.title;
   }
 
   const isPending = status === 'pending';
   const isComplete = status === 'complete';
   const isError = status === 'error';
+  const isBlocked = status === 'blocked';
+  const refusal = 'refusal' in event ? event.refusal : undefined;
+  const approval = 'approval' in event ? event.approval : undefined;
+  const approvalLabel =
+    approval && approval.status !== 'pending' ? APPROVAL_LABELS[approval.status] : undefined;
 
   return (
     <motion.div
@@ -151,9 +325,42 @@ export function ToolCallCard({
               </span>
             )}
           </div>
-          {event.duration && (
-            <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
-              {formatDuration(event.duration)}
+          {(event.duration ||
+            exitCode !== undefined ||
+            linesAdded !== undefined ||
+            pageTitle ||
+            approvalLabel ||
+            refusal) && (
+            <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5 flex items-center gap-2">
+              {event.duration && <span>{formatDuration(event.duration)}</span>}
+              {exitCode !== undefined && (
+                <span className={cn('font-mono', exitCode !== 0 && 'text-red-600')}>
+                  exit {exitCode}
+                </span>
+              )}
+              {linesAdded !== undefined && (
+                <span className="font-mono">
+                  <span className="text-green-600">+{linesAdded}</span>{' '}
+                  <span className="text-red-600">-{linesRemoved}</span>
+                </span>
+              )}
+              {pageTitle && <span className="truncate">{pageTitle}</span>}
+              {approvalLabel && (
+                <span
+                  className={cn(
+                    'shrink-0',
+                    (approval?.status === 'denied' || approval?.status === 'expired') &&
+                      'text-red-600',
+                  )}
+                >
+                  {approvalLabel}
+                </span>
+              )}
+              {refusal && (
+                <span className="truncate text-orange-600" title={refusal.reason}>
+                  blocked by {refusal.rule}
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -166,17 +373,32 @@ export function ToolCallCard({
             )
           ) : isError ? (
             <CircleSlash className="h-4 w-4 text-red-600" />
+          ) : isBlocked ? (
+            <ShieldX className="h-4 w-4 text-orange-600" />
           ) : isComplete ? (
             <CheckCircle className="h-4 w-4 text-green-600" />
           ) : null}
         </div>
       </div>
 
+      {/* Output of a running bash command */}
+      {isPending && (liveStdout || liveStderr) && (
+        <div className="px-2 py-1 bg-zinc-100 dark:bg-zinc-800 rounded-sm font-mono text-xs whitespace-pre-wrap break-all">
+          {liveStdout && <div className="text-zinc-600 dark:text-zinc-300">{liveStdout}</div>}
+          {liveStderr && <div className="text-red-600 dark:text-red-400">{liveStderr}</div>}
+        </div>
+      )}
+
+      {/* Held by the approval policy, waiting for the user */}
+      {isPending && approval?.status === 'pending' && (
+        <ApprovalPrompt event={event} reason={approval.reason} />
+      )}
+
       {/* Screenshot thumbnail */}
       {hasThumbnail && thumbnailData && (
         <div className="p-2">
           <Image
-            src={`data:image/png;base64,${thumbnailData}`}
+            src={`data:${event.result?.mimeType ?? 'image/png'};base64,${thumbnailData}`}
             alt="Screenshot"
             width={1024}
             height={768}
@@ -1,10 +1,26 @@
 'use client';
 
 import Image from 'next/image';
-import { useSelectedEvent, useEventStore } from '@/lib/hooks/use-event-store';
-import { isComputerEvent, isBashEvent } from '@/lib/types/events';
+import { useEffect, useRef, useState } from 'react';
+import { useSelectedEvent, useEventStore, useEvents } from '@/lib/hooks/use-event-store';
+import { useActiveSession } from '@/lib/hooks/use-session';
+import { useSandboxLifecycle } from '@/lib/hooks/use-sandbox-lifecycle';
+import type { AccessibilityNode } from '@/lib/desktop/accessibility';
+import {
+  isComputerEvent,
+  isBashEvent,
+  isProcessEvent,
+  isTextEditorEvent,
+  isBrowserEvent,
+  MAX_LIVE_OUTPUT_CHARS,
+  type ApprovalStatus,
+  type ToolResult,
+  type ZoomResult,
+} from '@/lib/types/events';
+import { diffLines, type DiffLine } from '@/lib/utils/diff';
 import { cn } from '@/lib/utils';
-import { Calendar, Clock, Code, FileText, Image as ImageIcon, Terminal, X } from 'lucide-react';
+import { Calendar, ChevronDown, ChevronRight, Clock, Code, FileText, Folder, Globe, Image as ImageIcon, ListTree, Loader2, RotateCcw, ShieldAlert, ShieldX, Terminal, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 
 /**
  * Format timestamp to readable date/time
@@ -14,6 +30,17 @@ function formatTimestamp(timestamp: number): string {
   return date.toLocaleString();
 }
 
+/**
+ * What the user decided for a call held by the approval policy
+ */
+const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: 'Waiting for your decision',
+  approved: 'Approved',
+  edited: 'Edited, then approved',
+  denied: 'Denied',
+  expired: 'Timed out without a decision',
+};
+
 /**
  * Format duration in milliseconds
  */
@@ -23,13 +50,218 @@ function formatDuration(duration?: number): string {
   return `${(duration / 1000).toFixed(2)}s`;
 }
 
+/**
+ * Output stream pane for bash results
+ */
+function OutputPane({
+  title,
+  output,
+  truncated,
+  isError = false,
+  follow = false,
+}: {
+  title: string;
+  output: string;
+  truncated: boolean;
+  isError?: boolean;
+  follow?: boolean; // Keep scrolled to the end while output streams in
+}) {
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (follow && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [follow, output]);
+
+  return (
+    <div>
+      <h3
+        className={cn(
+          'text-sm font-semibold mb-2 flex items-center gap-2',
+          isError && output
+            ? 'text-red-700 dark:text-red-300'
+            : 'text-zinc-700 dark:text-zinc-300',
+        )}
+      >
+        {title}
+        {truncated && (
+          <span className="text-xs font-normal text-amber-700 dark:text-amber-300">
+            (truncated - showing the end)
+          </span>
+        )}
+      </h3>
+      <div
+        ref={outputRef}
+        className={cn(
+          'rounded-lg p-4 font-mono text-sm break-words whitespace-pre-wrap max-h-96 overflow-y-auto',
+          isError && output
+            ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+            : 'bg-zinc-50 dark:bg-zinc-800',
+        )}
+      >
+        {output || <span className="text-zinc-400 dark:text-zinc-500">(empty)</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Unified diff with old/new line numbers
+ */
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  if (lines.length === 0) {
+    return (
+      <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 text-sm text-zinc-400 dark:text-zinc-500">
+        (no changes)
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-zinc-50 dark:bg-zinc-800 font-mono text-xs overflow-x-auto max-h-[32rem] overflow-y-auto py-2">
+      {lines.map((line, index) =>
+        line.type === 'skip' ? (
+          <div key={index} className="px-4 py-1 text-zinc-400 dark:text-zinc-500 select-none">
+            ⋯
+          </div>
+        ) : (
+          <div
+            key={index}
+            className={cn(
+              'flex whitespace-pre',
+              line.type === 'add' && 'bg-green-100 text-green-900 dark:bg-green-900/30 dark:text-green-200',
+              line.type === 'remove' && 'bg-red-100 text-red-900 dark:bg-red-900/30 dark:text-red-200',
+            )}
+          >
+            <span className="w-10 shrink-0 text-right pr-2 text-zinc-400 dark:text-zinc-500 select-none">
+              {line.oldLine ?? ''}
+            </span>
+            <span className="w-10 shrink-0 text-right pr-2 text-zinc-400 dark:text-zinc-500 select-none">
+              {line.newLine ?? ''}
+            </span>
+            <span className="w-4 shrink-0 select-none">
+              {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+            </span>
+            <span className="pr-4">{line.text}</span>
+          </div>
+        ),
+      )}
+    </div>
+  );
+}
+
+/**
+ * Zoom crop outlined on the screenshot the model was looking at
+ */
+function ZoomRegionPreview({ screenshot, zoom }: { screenshot: ToolResult; zoom: ZoomResult }) {
+  const [x1, y1, x2, y2] = zoom.region;
+  const { x: width, y: height } = zoom.screenshotSize;
+
+  return (
+    <div className="relative">
+      <Image
+        src={`data:${screenshot.mimeType ?? 'image/png'};base64,${screenshot.data}`}
+        alt="Screenshot with zoom region"
+        width={width}
+        height={height}
+        className="w-full rounded border border-zinc-200 dark:border-zinc-700"
+        unoptimized
+      />
+      <div
+        className="absolute border-2 border-red-500 bg-red-500/10"
+        style={{
+          left: `${(x1 / width) * 100}%`,
+          top: `${(y1 / height) * 100}%`,
+          width: `${((x2 - x1) / width) * 100}%`,
+          height: `${((y2 - y1) / height) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
+
+/**
+ * Accessibility tree node with its children in a collapsible outline
+ */
+function AccessibilityOutlineNode({ node, depth }: { node: AccessibilityNode; depth: number }) {
+  // Applications and windows start expanded, deeper levels collapsed
+  const [isExpanded, setIsExpanded] = useState(depth < 2);
+  const hasChildren = node.children.length > 0;
+  const Chevron = isExpanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div>
+      <div
+        className={cn(
+          'flex items-baseline gap-1.5 py-0.5 rounded',
+          hasChildren && 'cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-700',
+        )}
+        onClick={() => hasChildren && setIsExpanded(!isExpanded)}
+      >
+        {hasChildren ? (
+          <Chevron className="w-3 h-3 shrink-0 self-center text-zinc-500" />
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <span className="text-zinc-500 dark:text-zinc-400 shrink-0">{node.role}</span>
+        {node.name && (
+          <span className="text-zinc-800 dark:text-zinc-200 truncate">{node.name}</span>
+        )}
+        {node.value !== undefined && (
+          <span className="text-blue-700 dark:text-blue-300 truncate">
+            = {JSON.stringify(node.value)}
+          </span>
+        )}
+        {node.states?.map((state) => (
+          <span
+            key={state}
+            className="px-1 rounded bg-zinc-200 dark:bg-zinc-700 text-zinc-600 dark:text-zinc-300 shrink-0"
+          >
+            {state}
+          </span>
+        ))}
+        {node.bounds && (
+          <span className="ml-auto pl-2 text-zinc-400 dark:text-zinc-500 shrink-0">
+            ({node.bounds.join(', ')})
+          </span>
+        )}
+      </div>
+      {hasChildren && isExpanded && (
+        <div className="ml-1.5 pl-2 border-l border-zinc-200 dark:border-zinc-700">
+          {node.children.map((child, index) => (
+            <AccessibilityOutlineNode key={index} node={child} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Tool call details panel component
  * Shows in the right panel when an event is selected
  */
 export function ToolCallDetails() {
   const event = useSelectedEvent();
+  const events = useEvents();
   const { selectEvent } = useEventStore();
+  const activeSession = useActiveSession();
+  const { restartShell } = useSandboxLifecycle();
+
+  // The latest earlier screenshot is the one the model picked the zoom region from
+  const zoomSource =
+    event && isComputerEvent(event) && event.result?.zoom
+      ? events
+          .filter(
+            (other) =>
+              isComputerEvent(other) &&
+              other.payload.action !== 'zoom' &&
+              other.timestamp < event.timestamp &&
+              other.result?.data,
+          )
+          .at(-1)?.result
+      : undefined;
 
   if (!event) {
     return (
@@ -49,7 +281,15 @@ export function ToolCallDetails() {
         <div className="border-b border-zinc-200 dark:border-zinc-800 pb-4">
           <div className="flex items-center justify-between mb-2">
             <h2 className="text-2xl font-bold">
-              {isComputerEvent(event) ? 'Computer Action' : 'Bash Command'}
+              {isComputerEvent(event)
+                ? 'Computer Action'
+                : isProcessEvent(event)
+                  ? 'Background Process'
+                  : isTextEditorEvent(event)
+                    ? 'File Edit'
+                    : isBrowserEvent(event)
+                      ? 'Browser Action'
+                      : 'Bash Command'}
             </h2>
             <button
               onClick={() => selectEvent(null)}
@@ -77,6 +317,8 @@ export function ToolCallDetails() {
                   'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:bg-amber-200',
                 event.status === 'error' &&
                   'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+                event.status === 'blocked' &&
+                  'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
               )}
             >
               {event.status.toUpperCase()}
@@ -84,6 +326,58 @@ export function ToolCallDetails() {
           </div>
         </div>
 
+        {/* Command policy refusal */}
+        {'refusal' in event && event.refusal && (
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+              <ShieldX className="w-4 h-4" />
+              Blocked by Command Policy
+            </h3>
+            <div className="bg-orange-50 dark:bg-orange-950 rounded-lg p-4 text-sm space-y-1">
+              <div className="font-mono text-xs text-orange-800 dark:text-orange-200">
+                {event.refusal.rule}
+              </div>
+              <div className="text-zinc-700 dark:text-zinc-300">{event.refusal.reason}</div>
+            </div>
+          </div>
+        )}
+
+        {/* Approval decision */}
+        {'approval' in event && event.approval && (
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              Approval
+            </h3>
+            <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <span
+                  className={cn(
+                    'font-medium',
+                    (event.approval.status === 'denied' || event.approval.status === 'expired') &&
+                      'text-red-600 dark:text-red-400',
+                  )}
+                >
+                  {APPROVAL_STATUS_LABELS[event.approval.status]}
+                </span>
+                {event.approval.decidedAt && (
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {formatTimestamp(event.approval.decidedAt)}
+                  </span>
+                )}
+              </div>
+              <div className="text-zinc-600 dark:text-zinc-400">{event.approval.reason}</div>
+              {event.approval.edits &&
+                Object.entries(event.approval.edits).map(([field, value]) => (
+                  <div key={field}>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">Ran with {field}</div>
+                    <div className="font-mono text-xs whitespace-pre-wrap break-all">{value}</div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
+
         {/* Computer Event Details */}
         {isComputerEvent(event) && (
           <>
@@ -119,6 +413,17 @@ export function ToolCallDetails() {
                 </div>
               )}
 
+              {event.payload.app && (
+                <div>
+                  <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                    Application
+                  </h3>
+                  <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm">
+                    {event.payload.app}
+                  </div>
+                </div>
+              )}
+
               {event.payload.duration && (
                 <div>
                   <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
@@ -152,15 +457,28 @@ export function ToolCallDetails() {
                 </div>
               )}
 
-              {event.result?.type === 'image' && event.result.data && (
+              {event.result?.data && (
                 <div>
                   <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
                     <ImageIcon className="w-4 h-4" />
-                    Screenshot
+                    {event.result.zoom
+                      ? 'Zoomed In'
+                      : event.result.type === 'image'
+                        ? 'Screenshot'
+                        : 'Screenshot After Action'}
+                    {event.result.redactions && (
+                      <span className="text-xs font-normal text-amber-700 dark:text-amber-300">
+                        (blurred:{' '}
+                        {Object.entries(event.result.redactions)
+                          .map(([reason, count]) => `${count} ${reason}`)
+                          .join(', ')}
+                        )
+                      </span>
+                    )}
                   </h3>
                   <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4">
                     <Image
-                      src={`data:image/png;base64,${event.result.data}`}
+                      src={`data:${event.result.mimeType ?? 'image/png'};base64,${event.result.data}`}
                       alt="Screenshot"
                       width={1024}
                       height={768}
@@ -171,6 +489,45 @@ export function ToolCallDetails() {
                 </div>
               )}
 
+              {event.result?.zoom && (
+                <div>
+                  <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                    Zoom Region
+                  </h3>
+                  <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 space-y-3">
+                    <div className="font-mono text-sm">
+                      [{event.result.zoom.region.join(', ')}]
+                    </div>
+                    {zoomSource && (
+                      <ZoomRegionPreview screenshot={zoomSource} zoom={event.result.zoom} />
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {event.result?.accessibility && (
+                <div>
+                  <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+                    <ListTree className="w-4 h-4" />
+                    Accessibility Tree
+                    {event.result.accessibility.truncated && (
+                      <span className="text-xs font-normal text-amber-700 dark:text-amber-300">
+                        (truncated)
+                      </span>
+                    )}
+                  </h3>
+                  <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-xs max-h-[32rem] overflow-auto">
+                    {event.result.accessibility.applications.length === 0 ? (
+                      <div className="text-zinc-500 dark:text-zinc-400">{event.result.text}</div>
+                    ) : (
+                      event.result.accessibility.applications.map((app, index) => (
+                        <AccessibilityOutlineNode key={index} node={app} depth={0} />
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
+
               {event.result?.type === 'text' && event.result.text && (
                 <div>
                   <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
@@ -210,6 +567,100 @@ export function ToolCallDetails() {
                 </div>
               </div>
 
+              {event.status === 'pending' && event.liveOutput && (
+                <>
+                  <div className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Running - output so far
+                  </div>
+                  <OutputPane
+                    title="stdout"
+                    output={event.liveOutput.stdout}
+                    truncated={event.liveOutput.stdout.length >= MAX_LIVE_OUTPUT_CHARS}
+                    follow
+                  />
+                  <OutputPane
+                    title="stderr"
+                    output={event.liveOutput.stderr}
+                    truncated={event.liveOutput.stderr.length >= MAX_LIVE_OUTPUT_CHARS}
+                    isError
+                    follow
+                  />
+                </>
+              )}
+
+              {event.result?.bash && (
+                <>
+                  <div>
+                    <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+                      <Folder className="w-4 h-4" />
+                      Working Directory
+                    </h3>
+                    <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm flex items-center justify-between gap-4">
+                      <span className="break-all">
+                        {event.result.bash.cwd ?? 'N/A'}
+                        {event.result.bash.restarted && (
+                          <span className="ml-2 text-xs text-zinc-500 dark:text-zinc-400">
+                            (shell restarted)
+                          </span>
+                        )}
+                      </span>
+                      {activeSession?.sandboxId && (
+                        <Button
+                          onClick={() => restartShell(activeSession)}
+                          size="sm"
+                          variant="outline"
+                          className="shrink-0"
+                          title="Reset cwd, environment and aliases of the session's shell"
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Restart shell
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4 text-sm">
+                    <div
+                      className={cn(
+                        'px-2 py-1 rounded font-mono text-xs',
+                        event.result.bash.exitCode === 0
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+                      )}
+                    >
+                      exit {event.result.bash.exitCode}
+                    </div>
+                    <div className="flex items-center gap-1 text-zinc-500 dark:text-zinc-400">
+                      <Clock className="w-4 h-4" />
+                      <span>{formatDuration(event.result.bash.durationMs)}</span>
+                    </div>
+                    {event.result.bash.timedOut && (
+                      <div className="px-2 py-1 rounded text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                        timed out
+                      </div>
+                    )}
+                    {event.result.bash.aborted && (
+                      <div className="px-2 py-1 rounded text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                        stopped
+                      </div>
+                    )}
+                  </div>
+
+                  <OutputPane
+                    title="stdout"
+                    output={event.result.bash.stdout}
+                    truncated={event.result.bash.stdoutTruncated}
+                  />
+                  <OutputPane
+                    title="stderr"
+                    output={event.result.bash.stderr}
+                    truncated={event.result.bash.stderrTruncated}
+                    isError
+                  />
+                </>
+              )}
+
               {event.result?.type === 'text' && event.result.text && (
                 <div>
                   <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
@@ -235,6 +686,235 @@ export function ToolCallDetails() {
           </>
         )}
 
+        {/* Process Event Details */}
+        {isProcessEvent(event) && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                Action
+              </h3>
+              <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm">
+                {event.payload.action}
+                {event.payload.timeout_seconds && ` (timeout ${event.payload.timeout_seconds}s)`}
+              </div>
+            </div>
+
+            {(event.payload.command || event.result?.process?.command) && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+                  <Terminal className="w-4 h-4" />
+                  Command
+                </h3>
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm break-words">
+                  {event.payload.command ?? event.result?.process?.command}
+                </div>
+              </div>
+            )}
+
+            {event.result?.process && (
+              <>
+                <div className="flex items-center gap-4 text-sm">
+                  <div className="px-2 py-1 rounded font-mono text-xs bg-zinc-100 dark:bg-zinc-800">
+                    {event.result.process.id} · pid {event.result.process.pid}
+                  </div>
+                  <div
+                    className={cn(
+                      'px-2 py-1 rounded font-mono text-xs',
+                      event.result.process.status === 'running' &&
+                        'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+                      event.result.process.status === 'exited' &&
+                        (event.result.process.exitCode === 0
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'),
+                      event.result.process.status === 'killed' &&
+                        'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300',
+                    )}
+                  >
+                    {event.result.process.status}
+                    {event.result.process.exitCode !== null &&
+                      ` (exit ${event.result.process.exitCode})`}
+                  </div>
+                </div>
+
+                {'stdout' in event.result.process && (
+                  <>
+                    <OutputPane
+                      title="stdout"
+                      output={event.result.process.stdout}
+                      truncated={event.result.process.stdoutTruncated}
+                    />
+                    <OutputPane
+                      title="stderr"
+                      output={event.result.process.stderr}
+                      truncated={event.result.process.stderrTruncated}
+                      isError
+                    />
+                  </>
+                )}
+              </>
+            )}
+
+            {event.result?.processes && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                  Processes
+                </h3>
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm space-y-1">
+                  {event.result.processes.length === 0
+                    ? 'No background processes'
+                    : event.result.processes.map((process) => (
+                        <div key={process.id} className="truncate">
+                          {process.id} [{process.status}
+                          {process.exitCode !== null && `, exit ${process.exitCode}`}]{' '}
+                          {process.command}
+                        </div>
+                      ))}
+                </div>
+              </div>
+            )}
+
+            {event.error && (
+              <div>
+                <h3 className="text-sm font-semibold text-red-700 dark:text-red-300 mb-2">
+                  Error
+                </h3>
+                <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4 font-mono text-sm text-red-800 dark:text-red-200 break-words">
+                  {event.error}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Text Editor Event Details */}
+        {isTextEditorEvent(event) && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                {event.payload.command}
+              </h3>
+              <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm break-all">
+                {event.payload.path}
+                {event.payload.view_range && ` [${event.payload.view_range.join(', ')}]`}
+                {event.payload.insert_line !== undefined && ` after line ${event.payload.insert_line}`}
+              </div>
+            </div>
+
+            {event.result?.textEditor?.diff ? (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                  Changes
+                </h3>
+                <DiffView lines={event.result.textEditor.diff} />
+              </div>
+            ) : (
+              // Until the edit lands (or if it fails), show what was asked for
+              event.payload.command === 'str_replace' &&
+              event.payload.old_str !== undefined && (
+                <div>
+                  <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                    Requested Change
+                  </h3>
+                  <DiffView lines={diffLines(event.payload.old_str, event.payload.new_str ?? '')} />
+                </div>
+              )
+            )}
+
+            {event.payload.command === 'view' && event.result?.textEditor?.output && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                  Output
+                </h3>
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-xs whitespace-pre overflow-x-auto max-h-[32rem] overflow-y-auto">
+                  {event.result.textEditor.output}
+                </div>
+              </div>
+            )}
+
+            {event.error && (
+              <div>
+                <h3 className="text-sm font-semibold text-red-700 dark:text-red-300 mb-2">
+                  Error
+                </h3>
+                <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4 font-mono text-sm text-red-800 dark:text-red-200 break-words">
+                  {event.error}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {isBrowserEvent(event) && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                {event.payload.action}
+              </h3>
+              {(event.payload.url || event.payload.selector) && (
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm break-all">
+                  {event.payload.url ?? event.payload.selector}
+                </div>
+              )}
+            </div>
+
+            {event.payload.value !== undefined && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                  Value
+                </h3>
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-sm break-words">
+                  {event.payload.value}
+                </div>
+              </div>
+            )}
+
+            {event.result?.browser && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                  Page
+                </h3>
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 text-sm space-y-1">
+                  <div className="font-medium break-words">{event.result.browser.title || '(untitled)'}</div>
+                  <div className="font-mono text-xs text-zinc-500 dark:text-zinc-400 break-all">
+                    {event.result.browser.url}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {event.result?.browser?.content !== undefined && (
+              <div>
+                <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
+                  {event.payload.action === 'get_dom' ? 'HTML' : 'Text'}
+                  {event.result.browser.contentTruncated && (
+                    <span className="text-xs font-normal text-amber-700 dark:text-amber-300">
+                      (clipped - showing the start)
+                    </span>
+                  )}
+                </h3>
+                <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-4 font-mono text-xs break-words whitespace-pre-wrap max-h-96 overflow-y-auto">
+                  {event.result.browser.content || (
+                    <span className="text-zinc-400 dark:text-zinc-500">(empty)</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {event.error && (
+              <div>
+                <h3 className="text-sm font-semibold text-red-700 dark:text-red-300 mb-2">
+                  Error
+                </h3>
+                <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4 font-mono text-sm text-red-800 dark:text-red-200 break-words">
+                  {event.error}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* JSON Payload (for debugging) */}
         <div>
           <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2 flex items-center gap-2">
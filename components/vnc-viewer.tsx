@@ -2,6 +2,7 @@
 
 import { memo } from 'react';
 import { Button } from '@/components/ui/button';
+import type { SandboxState } from '@/lib/types/sessions';
 
 /**
  * VNC Viewer props - isolated to prevent re-renders
@@ -10,15 +11,17 @@ export interface VNCViewerProps {
   streamUrl: string | null;
   sandboxId: string | null;
   onRefresh?: () => void;
+  onResume?: () => void;
   isInitializing?: boolean;
+  sandboxState?: SandboxState | null;
 }
 
 /**
  * Memoized VNC viewer component
- * Only re-renders when streamUrl, sandboxId, or isInitializing changes
+ * Only re-renders when streamUrl, sandboxId, isInitializing, or sandboxState changes
  */
 export const VNCViewer = memo<VNCViewerProps>(
-  ({ streamUrl, onRefresh, isInitializing = false }) => {
+  ({ streamUrl, onRefresh, onResume, isInitializing = false, sandboxState }) => {
     return (
       <div className="bg-black relative items-center justify-center h-full w-full">
         {streamUrl ? (
@@ -58,6 +61,20 @@ export const VNCViewer = memo<VNCViewerProps>(
               </Button>
             )}
           </>
+        ) : sandboxState === 'paused' || sandboxState === 'killed' ? (
+          <div className="flex flex-col items-center justify-center gap-3 h-full text-white">
+            <span>{sandboxState === 'paused' ? 'Desktop paused' : 'Desktop stopped'}</span>
+            {sandboxState === 'paused' && onResume && (
+              <Button onClick={onResume} variant="secondary" size="sm">
+                Resume desktop
+              </Button>
+            )}
+            {sandboxState === 'killed' && onRefresh && (
+              <Button onClick={onRefresh} variant="secondary" size="sm" disabled={isInitializing}>
+                New desktop
+              </Button>
+            )}
+          </div>
         ) : (
           <div className="flex items-center justify-center h-full text-white">
             {isInitializing
@@ -73,7 +90,8 @@ export const VNCViewer = memo<VNCViewerProps>(
     return (
       prevProps.streamUrl === nextProps.streamUrl &&
       prevProps.sandboxId === nextProps.sandboxId &&
-      prevProps.isInitializing === nextProps.isInitializing
+      prevProps.isInitializing === nextProps.isInitializing &&
+      prevProps.sandboxState === nextProps.sandboxState
     );
   },
 );
@@ -0,0 +1,7 @@
+export async function register() {
+  // Pre-start pooled desktops when the Node.js server boots
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { warmDesktopPool } = await import("@/lib/e2b/utils");
+    await warmDesktopPool();
+  }
+}
@@ -0,0 +1,94 @@
+import { readFileSync } from 'fs';
+import {
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+
+/**
+ * A scripted tool call
+ */
+export interface MockToolCall {
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * One scripted model response: optional text followed by optional tool calls
+ */
+export interface MockModelStep {
+  text?: string;
+  toolCalls?: MockToolCall[];
+}
+
+/**
+ * Default script: take a screenshot, then finish
+ */
+export const DEFAULT_MOCK_SCRIPT: MockModelStep[] = [
+  {
+    text: 'Let me take a look at the screen.',
+    toolCalls: [{ toolName: 'computer', args: { action: 'screenshot' } }],
+  },
+  { text: 'I can see the desktop. Done.' },
+];
+
+/**
+ * Create a language model that replays a fixed script.
+ * The step is derived from the number of assistant messages since the last
+ * user message, so replays are deterministic across client-driven steps.
+ * Implements the model interface directly, so production bundles don't pull in the ai/test helpers.
+ */
+export function createMockModel(script: MockModelStep[] = DEFAULT_MOCK_SCRIPT): LanguageModelV1 {
+  const replay = ({ prompt }: LanguageModelV1CallOptions) => {
+    const lastUserIndex = prompt.findLastIndex((m) => m.role === 'user');
+    const stepIndex = prompt
+      .slice(lastUserIndex + 1)
+      .filter((m) => m.role === 'assistant').length;
+    const step = script[stepIndex] ?? { text: 'Done.' };
+
+    return {
+      text: step.text,
+      toolCalls: (step.toolCalls ?? []).map((call, i) => ({
+        toolCallType: 'function' as const,
+        toolCallId: `mock-${lastUserIndex}-${stepIndex}-${i}`,
+        toolName: call.toolName,
+        args: JSON.stringify(call.args),
+      })),
+      finishReason: step.toolCalls?.length ? ('tool-calls' as const) : ('stop' as const),
+      usage: { promptTokens: 0, completionTokens: 0 },
+      rawCall: { rawPrompt: prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: 'scripted',
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async (options) => replay(options),
+    doStream: async (options) => {
+      const { text, toolCalls, finishReason, usage, rawCall } = replay(options);
+      const chunks: LanguageModelV1StreamPart[] = [];
+      if (text) {
+        chunks.push({ type: 'text-delta', textDelta: text });
+      }
+      chunks.push(...toolCalls.map((call) => ({ type: 'tool-call' as const, ...call })));
+      chunks.push({ type: 'finish', finishReason, usage });
+
+      return {
+        stream: simulateReadableStream({ chunks, chunkDelayInMs: null }),
+        rawCall,
+      };
+    },
+  };
+}
+
+/**
+ * Load a script from MOCK_MODEL_SCRIPT (path to a JSON array of steps), if set
+ */
+export function loadMockScript(): MockModelStep[] {
+  const path = process.env.MOCK_MODEL_SCRIPT;
+  if (!path) return DEFAULT_MOCK_SCRIPT;
+  return JSON.parse(readFileSync(path, 'utf8')) as MockModelStep[];
+}
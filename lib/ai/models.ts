@@ -0,0 +1,18 @@
+import { anthropic } from '@ai-sdk/anthropic';
+import type { LanguageModel } from 'ai';
+import { createMockModel, loadMockScript } from './mock-model';
+
+/**
+ * Anthropic model used for computer use
+ */
+export const CHAT_MODEL_ID = 'claude-sonnet-4-5-20250929';
+
+/**
+ * Get the chat model, selected by CHAT_MODEL_PROVIDER (anthropic | mock)
+ */
+export function getChatModel(): LanguageModel {
+  if (process.env.CHAT_MODEL_PROVIDER === 'mock') {
+    return createMockModel(loadMockScript());
+  }
+  return anthropic(CHAT_MODEL_ID);
+}
@@ -0,0 +1,325 @@
+import type { CommandRefusal } from '@/lib/types/events';
+
+/**
+ * Rule in BASH_POLICY: a built-in rule name, a program name, or a regular expression over the command line
+ */
+export type CommandRule = string | { binary: string } | { pattern: string };
+
+/**
+ * Allow and deny rules for shell commands, read from BASH_POLICY
+ * Deny rules win. With allow rules, every simple command in a line must match an allow pattern
+ * or only run allowed binaries.
+ */
+export interface CommandPolicy {
+  deny: CommandRule[];
+  allow: CommandRule[];
+  invalid: boolean; // The policy failed to parse, so every command is refused
+}
+
+/**
+ * One simple command of a command line
+ */
+interface SimpleCommand {
+  words: string[];
+  piped: boolean; // Reads the previous command's output
+}
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+const INTERPRETERS = new Set([...SHELLS, 'python', 'python3', 'perl', 'ruby', 'node']);
+const DOWNLOADERS = new Set(['curl', 'wget', 'fetch']);
+
+/**
+ * Programs that run the command given in their arguments
+ */
+const WRAPPERS = new Set([
+  'sudo', 'doas', 'env', 'nohup', 'time', 'nice', 'ionice', 'exec', 'command',
+  'builtin', 'xargs', 'timeout', 'stdbuf', 'setsid', 'watch',
+]);
+
+/**
+ * Wrapper options that take a value, so the value isn't mistaken for the program
+ */
+const WRAPPER_VALUE_OPTIONS = new Set(['-u', '-g', '-n', '-c', '-s', '-k', '-C', '-I', '-o', '-e']);
+
+/**
+ * Arguments of `rm -r` that wipe the system or the home directory
+ */
+const PROTECTED_PATHS = new Set([
+  '/', '/*', '~', '~/', '~/*', '$HOME', '$HOME/', '$HOME/*', '${HOME}', '/bin', '/boot',
+  '/etc', '/home', '/lib', '/root', '/usr', '/var',
+]);
+
+/**
+ * Built-in rules, all denied unless BASH_POLICY lists its own deny rules
+ */
+const BUILTIN_RULES: Record<string, { reason: string; matches: (line: string, commands: SimpleCommand[]) => boolean }> = {
+  'rm-root': {
+    reason: 'Recursively deletes a system or home directory',
+    matches: (_, commands) =>
+      commands.some(({ words }) => {
+        if (programOf(words) !== 'rm') return false;
+        const args = words.slice(words.findIndex((word) => basename(word) === 'rm') + 1);
+        const recursive = args.some(
+          (arg) => arg === '--recursive' || /^-[a-zA-Z]*[rR]/.test(arg),
+        );
+        return args.includes('--no-preserve-root') || (recursive && args.some((arg) => PROTECTED_PATHS.has(arg)));
+      }),
+  },
+  'pipe-to-shell': {
+    reason: 'Runs a downloaded script without saving it first',
+    matches: (line, commands) =>
+      commands.some(
+        (command, index) =>
+          command.piped &&
+          INTERPRETERS.has(programOf(command.words)) &&
+          DOWNLOADERS.has(programOf(commands[index - 1]?.words ?? [])),
+      ) ||
+      // Process substitution: bash <(curl ...)
+      /\b(?:ba|z|da|k)?sh\s+(?:-s\s+)?<\(\s*(?:curl|wget)\b/.test(line),
+  },
+  power: {
+    reason: 'Shuts down or restarts the machine',
+    matches: (_, commands) =>
+      commands.some(({ words }) => {
+        const program = programOf(words);
+        const args = words.slice(1);
+        return (
+          ['shutdown', 'reboot', 'halt', 'poweroff'].includes(program) ||
+          (program === 'systemctl' && args.some((arg) => ['poweroff', 'reboot', 'halt', 'kexec'].includes(arg))) ||
+          (['init', 'telinit'].includes(program) && args.some((arg) => arg === '0' || arg === '6'))
+        );
+      }),
+  },
+  'disk-format': {
+    reason: 'Formats or overwrites a disk',
+    matches: (_, commands) =>
+      commands.some(({ words }) => {
+        const program = programOf(words);
+        return (
+          /^mkfs(\..+)?$/.test(program) ||
+          ['fdisk', 'sfdisk', 'parted', 'wipefs', 'mkswap'].includes(program) ||
+          (program === 'dd' && words.some((word) => word.startsWith('of=/dev/')))
+        );
+      }),
+  },
+  'fork-bomb': {
+    reason: 'Fork bomb',
+    matches: (line) => /(\S+)\s*\(\s*\)\s*\{[^}]*\1\s*\|\s*\1\s*&/.test(line),
+  },
+};
+
+const basename = (word: string) => word.slice(word.lastIndexOf('/') + 1);
+
+/**
+ * Programs a simple command runs: wrappers like sudo, then the program they run
+ */
+function programsOf(words: string[]): string[] {
+  const programs: string[] = [];
+  for (let index = 0; index < words.length; index++) {
+    const word = words[index];
+    const wrapped = programs.length > 0;
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) continue; // FOO=bar cmd
+    if (WRAPPERS.has(basename(word))) {
+      programs.push(basename(word));
+      continue;
+    }
+    // Wrapper options and their values: sudo -u root cmd, timeout 10 cmd
+    if (
+      wrapped &&
+      (word.startsWith('-') ||
+        WRAPPER_VALUE_OPTIONS.has(words[index - 1]) ||
+        /^\d+(\.\d+)?[smhd]?$/.test(word))
+    ) {
+      continue;
+    }
+    return [...programs, basename(word)];
+  }
+  return programs;
+}
+
+/**
+ * Program a simple command runs, looking through env assignments and wrappers
+ */
+const programOf = (words: string[]) => programsOf(words).at(-1) ?? '';
+
+/**
+ * Script a simple command hands to a shell (`bash -c '...'`) or to eval
+ */
+function nestedScript(words: string[]): string | undefined {
+  const program = programOf(words);
+  if (program === 'eval') return words.slice(words.indexOf('eval') + 1).join(' ');
+  const flag = words.indexOf('-c');
+  return SHELLS.has(program) && flag !== -1 ? words[flag + 1] : undefined;
+}
+
+/**
+ * Split a command line into simple commands, following quotes, pipes, lists and command substitution
+ * Best effort: it reads shell syntax, it doesn't run it.
+ */
+function splitCommandLine(line: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+  let piped = false;
+
+  const endWord = () => {
+    if (inWord) words.push(word);
+    word = '';
+    inWord = false;
+  };
+  const endCommand = (nextPiped: boolean) => {
+    endWord();
+    if (words.length > 0) commands.push({ words, piped });
+    words = [];
+    piped = nextPiped;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else word += char;
+      continue;
+    }
+    if (char === '\\') {
+      word += line[++i] ?? '';
+      inWord = true;
+      continue;
+    }
+    // Command substitution runs even inside double quotes
+    if ((char === '$' && line[i + 1] === '(') || char === '`') {
+      endCommand(false);
+      quote = null;
+      if (char === '$') i++;
+      continue;
+    }
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      else word += char;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (char === '|') {
+      const or = line[i + 1] === '|';
+      if (or || line[i + 1] === '&') i++;
+      endCommand(!or);
+    } else if (char === '&' && (line[i - 1] === '>' || line[i - 1] === '<' || line[i + 1] === '>')) {
+      endWord(); // Redirection such as 2>&1 or &>file
+    } else if (';&\n()'.includes(char)) {
+      endCommand(false);
+    } else if (/\s|<|>/.test(char)) {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endCommand(false);
+
+  // Commands passed to a shell or eval are checked too
+  return commands.flatMap((command) => {
+    const script = nestedScript(command.words);
+    return script ? [command, ...splitCommandLine(script)] : [command];
+  });
+}
+
+const matchesRule = (rule: CommandRule, line: string, commands: SimpleCommand[]) => {
+  if (typeof rule === 'string') return BUILTIN_RULES[rule].matches(line, commands);
+  if ('binary' in rule) return commands.some(({ words }) => programOf(words) === basename(rule.binary));
+  return new RegExp(rule.pattern).test(line);
+};
+
+const ruleName = (rule: CommandRule) =>
+  typeof rule === 'string' ? rule : 'binary' in rule ? `binary:${rule.binary}` : `pattern:${rule.pattern}`;
+
+const ruleReason = (rule: CommandRule) =>
+  typeof rule === 'string'
+    ? BUILTIN_RULES[rule].reason
+    : 'binary' in rule
+      ? `Runs ${rule.binary}, which is denied`
+      : `Matches the denied pattern /${rule.pattern}/`;
+
+/**
+ * Check that a rule is well-formed, so a typo can't silently disable it
+ */
+function validateRule(rule: CommandRule): CommandRule {
+  if (typeof rule === 'string') {
+    if (!(rule in BUILTIN_RULES)) throw new Error(`Unknown built-in rule ${rule}`);
+  } else if ('pattern' in rule) {
+    new RegExp(rule.pattern); // Throws on bad syntax
+  } else if (!('binary' in rule) || typeof rule.binary !== 'string') {
+    throw new Error(`Invalid rule ${JSON.stringify(rule)}`);
+  }
+  return rule;
+}
+
+/**
+ * Parse BASH_POLICY, e.g. `{"deny": ["rm-root", {"binary": "shutdown"}], "allow": [{"binary": "ls"}]}`
+ * Without it, or without `deny`, every built-in rule is denied. A broken policy refuses everything.
+ */
+export function getCommandPolicy(): CommandPolicy {
+  const builtins = Object.keys(BUILTIN_RULES);
+  const source = process.env.BASH_POLICY?.trim();
+  if (!source) return { deny: builtins, allow: [], invalid: false };
+
+  try {
+    const raw = JSON.parse(source) as { deny?: CommandRule[]; allow?: CommandRule[] };
+    return {
+      deny: (raw.deny ?? builtins).map(validateRule),
+      allow: (raw.allow ?? []).map(validateRule),
+      invalid: false,
+    };
+  } catch (error) {
+    console.error('Failed to parse BASH_POLICY:', error);
+    return { deny: [], allow: [], invalid: true };
+  }
+}
+
+/**
+ * Why the policy refuses a command, or null if it may run
+ */
+export function checkCommand(policy: CommandPolicy, command: string): CommandRefusal | null {
+  if (policy.invalid) {
+    return { rule: 'invalid-policy', reason: 'BASH_POLICY is invalid, so no command may run' };
+  }
+  if (!command.trim()) return null;
+
+  const commands = splitCommandLine(command);
+  const denied = policy.deny.find((rule) => matchesRule(rule, command, commands));
+  if (denied) return { rule: ruleName(denied), reason: ruleReason(denied) };
+  if (policy.allow.length === 0) return null;
+
+  const patterns = policy.allow.flatMap((rule) =>
+    typeof rule === 'object' && 'pattern' in rule ? [new RegExp(rule.pattern)] : [],
+  );
+  const binaries = new Set(
+    policy.allow.flatMap((rule) =>
+      typeof rule === 'object' && 'binary' in rule ? [basename(rule.binary)] : [],
+    ),
+  );
+  // Every simple command is checked on its own, so `ls; rm -rf ~` can't pass on an `^ls` pattern.
+  // Wrappers count too, so sudo has to be allowed on its own.
+  for (const { words } of commands) {
+    if (patterns.some((pattern) => pattern.test(words.join(' ')))) continue;
+    const outside = programsOf(words).find((program) => !binaries.has(program));
+    if (outside) {
+      return { rule: 'allowlist', reason: `Runs ${outside}, which is not on the allowlist` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Refusal as text for the model
+ */
+export function formatCommandRefusal(refusal: CommandRefusal): string {
+  return [
+    'Command refused by policy. It did not run.',
+    `<policy_refusal rule="${refusal.rule}">${refusal.reason}</policy_refusal>`,
+    "Don't retry it in another form; if it is needed, ask the user to run it.",
+  ].join('\n');
+}
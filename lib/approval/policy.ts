@@ -0,0 +1,117 @@
+/**
+ * Which tool calls wait for the user, read from APPROVAL_POLICY
+ */
+export interface ApprovalPolicy {
+  commands: RegExp[]; // Bash and background process commands
+  passwordFields: boolean; // Typing into a focused password field
+  domains: string[]; // Browser actions, and computer input in a browser window, on these hosts and their subdomains
+  invalid: boolean; // The policy failed to parse, so every call it could cover is held
+}
+
+/**
+ * APPROVAL_POLICY as written: commands are regular expressions
+ */
+interface RawApprovalPolicy {
+  commands?: string[];
+  passwordFields?: boolean;
+  domains?: string[];
+}
+
+const INVALID_POLICY_REASON = 'APPROVAL_POLICY is invalid, so every covered action needs approval';
+
+/**
+ * Parse APPROVAL_POLICY, e.g. `{"commands": ["\\bsudo\\b"], "passwordFields": true, "domains": ["admin.example.com"]}`
+ * A broken policy holds everything instead of letting calls through.
+ */
+export function getApprovalPolicy(): ApprovalPolicy {
+  const source = process.env.APPROVAL_POLICY?.trim();
+  const empty: ApprovalPolicy = { commands: [], passwordFields: false, domains: [], invalid: false };
+  if (!source) return empty;
+
+  try {
+    const raw = JSON.parse(source) as RawApprovalPolicy;
+    return {
+      commands: (raw.commands ?? []).map((pattern) => new RegExp(pattern)),
+      passwordFields: raw.passwordFields === true,
+      domains: (raw.domains ?? []).map((domain) => domain.toLowerCase().replace(/^\*?\./, '')),
+      invalid: false,
+    };
+  } catch (error) {
+    console.error('Failed to parse APPROVAL_POLICY:', error);
+    return { ...empty, invalid: true };
+  }
+}
+
+/**
+ * Why a shell command needs approval, or null if it can run
+ */
+export function getCommandApprovalReason(policy: ApprovalPolicy, command: string): string | null {
+  if (policy.invalid) return INVALID_POLICY_REASON;
+  const match = policy.commands.find((pattern) => pattern.test(command));
+  return match ? `Command matches ${match}` : null;
+}
+
+/**
+ * Why a browser action needs approval, or null if it can run
+ * The page URL is only looked up when the policy lists domains.
+ */
+export async function getPageApprovalReason(
+  policy: ApprovalPolicy,
+  getUrl: () => Promise<string>,
+): Promise<string | null> {
+  if (policy.invalid) return INVALID_POLICY_REASON;
+  if (policy.domains.length === 0) return null;
+
+  let host: string;
+  try {
+    host = new URL(await getUrl()).hostname.toLowerCase();
+  } catch {
+    return null; // No page to check, so the action would fail anyway
+  }
+  const domain = policy.domains.find((d) => host === d || host.endsWith(`.${d}`));
+  return domain ? `Page is on ${domain}` : null;
+}
+
+/**
+ * Why a click or keystroke in the focused window needs approval, or null if it can run
+ * In a browser window it is covered by `domains` like a browser action; a page that can't be read
+ * (another browser, or Chrome without its DevTools port) is held.
+ */
+export async function getFocusedPageApprovalReason(
+  policy: ApprovalPolicy,
+  getFocusedPage: () => Promise<{ browser: boolean; url?: string }>,
+): Promise<string | null> {
+  if (policy.invalid) return INVALID_POLICY_REASON;
+  if (policy.domains.length === 0) return null;
+
+  let page: { browser: boolean; url?: string };
+  try {
+    page = await getFocusedPage();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return `Could not check the focused window for a covered page: ${message}`;
+  }
+  const { browser, url } = page;
+  if (!browser) return null;
+  if (!url) return 'Could not read the page in the focused browser window';
+  return getPageApprovalReason(policy, async () => url);
+}
+
+/**
+ * Why typing needs approval, or null if it can run
+ * The focus is only checked when the policy covers password fields; if it can't be checked, typing is held.
+ */
+export async function getPasswordFieldApprovalReason(
+  policy: ApprovalPolicy,
+  isPasswordFieldFocused: () => Promise<boolean>,
+): Promise<string | null> {
+  if (policy.invalid) return INVALID_POLICY_REASON;
+  if (!policy.passwordFields) return null;
+
+  try {
+    return (await isPasswordFieldFocused()) ? 'Typing into a password field' : null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return `Could not check for a focused password field: ${message}`;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createApprovalRequester, resolveApproval } from './requests';
+
+/**
+ * Hold `args`, then answer with an approval carrying `edits`
+ */
+async function approveWithEdits<T extends object>(args: T, edits: Record<string, string>) {
+  const requestApproval = createApprovalRequester(() => {});
+  const outcome = requestApproval('call-edit', 'Needs approval', args);
+  expect(resolveApproval('call-edit', { approved: true, edits })).toBe(true);
+  return outcome;
+}
+
+describe('approval edits', () => {
+  it('applies edits to free-text arguments', async () => {
+    const outcome = await approveWithEdits(
+      { action: 'fill', selector: '#name', value: 'Ada' },
+      { value: 'Grace' },
+    );
+
+    expect(outcome).toMatchObject({
+      args: { action: 'fill', selector: '#name', value: 'Grace' },
+      approval: { status: 'edited', edits: { value: 'Grace' } },
+    });
+  });
+
+  it.each([
+    ['a navigation url', { action: 'navigate', url: 'https://example.com/' }, { url: 'https://bank.example.com/' }],
+    ['a selector', { action: 'fill', selector: '#name', value: 'Ada' }, { selector: '#password' }],
+    ['a scroll direction', { action: 'scroll', scroll_direction: 'down' }, { scroll_direction: 'sideways' }],
+    ['the action', { action: 'type', text: 'hello' }, { action: 'key' }],
+  ])('ignores edits to %s', async (_, args, edits) => {
+    const outcome = await approveWithEdits(args, edits);
+
+    expect(outcome).toMatchObject({ args, approval: { status: 'approved' } });
+  });
+});
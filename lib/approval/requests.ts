@@ -0,0 +1,136 @@
+import {
+  getEditableApprovalFields,
+  type ApprovalRecord,
+  type ApprovalRequestData,
+} from '@/lib/types/events';
+
+/**
+ * How long a held tool call waits for the user, inside the chat route's maxDuration
+ */
+const APPROVAL_TIMEOUT_MS = 240000;
+
+/**
+ * The user's answer to a held tool call
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+  edits?: Record<string, string>; // Replacement values for editable arguments
+}
+
+/**
+ * Arguments to run with, and the decision to record on the event
+ */
+export interface ApprovalOutcome<T extends object> {
+  args: T;
+  approval: ApprovalRecord;
+}
+
+/**
+ * Hold a tool call until the user decides on it
+ * Rejects if the run is aborted while waiting.
+ */
+export type ApprovalRequester = <T extends object>(
+  toolCallId: string,
+  reason: string,
+  args: T,
+  signal?: AbortSignal,
+) => Promise<ApprovalOutcome<T>>;
+
+/**
+ * Keep waiting calls on globalThis so the approve route sees the chat route's requests
+ */
+const globalForApprovals = globalThis as unknown as {
+  pendingApprovals?: Map<string, (decision: ApprovalDecision) => void>;
+};
+const pendingApprovals = (globalForApprovals.pendingApprovals ??= new Map());
+
+/**
+ * Requester for one chat request; `onRequest` tells the client which call is waiting
+ */
+export function createApprovalRequester(
+  onRequest: (data: ApprovalRequestData) => void,
+): ApprovalRequester {
+  return async (toolCallId, reason, args, signal) => {
+    signal?.throwIfAborted();
+    onRequest({ type: 'approval-request', toolCallId, reason });
+
+    const decision = await new Promise<ApprovalDecision | null>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        pendingApprovals.delete(toolCallId);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve(null);
+      }, APPROVAL_TIMEOUT_MS);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pendingApprovals.set(toolCallId, (answer: ApprovalDecision) => {
+        cleanup();
+        resolve(answer);
+      });
+    });
+
+    const decidedAt = Date.now();
+    if (!decision) {
+      return { args, approval: { status: 'expired', reason, decidedAt } };
+    }
+    if (!decision.approved) {
+      return { args, approval: { status: 'denied', reason, decidedAt } };
+    }
+
+    // Only free-text arguments can change, so the call keeps its shape
+    const original = args as Record<string, unknown>;
+    const edits = Object.fromEntries(
+      getEditableApprovalFields(args)
+        .filter((key) => typeof decision.edits?.[key] === 'string' && decision.edits[key] !== original[key])
+        .map((key) => [key, decision.edits![key]]),
+    );
+    if (Object.keys(edits).length === 0) {
+      return { args, approval: { status: 'approved', reason, decidedAt } };
+    }
+    return { args: { ...args, ...edits }, approval: { status: 'edited', reason, edits, decidedAt } };
+  };
+}
+
+/**
+ * Pass the user's decision to a waiting tool call
+ * Returns false if nothing is waiting, e.g. the call already timed out or the run stopped.
+ */
+export function resolveApproval(toolCallId: string, decision: ApprovalDecision): boolean {
+  const resolve = pendingApprovals.get(toolCallId);
+  if (!resolve) return false;
+  resolve(decision);
+  return true;
+}
+
+/**
+ * Tell the model what became of a held call; empty for plain approvals
+ */
+export function formatApprovalNote(approval?: ApprovalRecord): string {
+  switch (approval?.status) {
+    case 'denied':
+      return `The user denied this action (${approval.reason}). It did not run - don't retry it; ask the user how to proceed.`;
+    case 'expired':
+      return `This action needed the user's approval (${approval.reason}) and got no answer in time. It did not run.`;
+    case 'edited': {
+      const changes = Object.entries(approval.edits ?? {})
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+        .join(', ');
+      return `The user edited this action before approving it, and it ran with ${changes}.`;
+    }
+    default:
+      return '';
+  }
+}
+
+/**
+ * Whether a held call was allowed to run
+ */
+export function isApprovalGranted(approval?: ApprovalRecord): boolean {
+  return !approval || approval.status === 'approved' || approval.status === 'edited';
+}
@@ -8,7 +8,7 @@ import {
   useEffect,
   type ReactNode,
 } from 'react';
-import type { ChatSession } from '@/lib/types/sessions';
+import type { ChatSession, ScreenResolution } from '@/lib/types/sessions';
 import { createSession as createSessionHelper, generateSessionNameFromMessages, type StoredSession } from '@/lib/types/sessions';
 import { sessionStorage, sessionToStored, storedToSession } from '@/lib/storage/session-storage';
 import type { UIMessage } from 'ai';
@@ -106,7 +106,11 @@ function sessionStoreReducer(
  */
 interface SessionStoreContextValue {
   state: SessionStoreState;
-  createSession: (name?: string, sandboxId?: string | null) => ChatSession;
+  createSession: (
+    name?: string,
+    sandboxId?: string | null,
+    resolution?: ScreenResolution,
+  ) => ChatSession;
   updateSession: (session: ChatSession) => void;
   deleteSession: (sessionId: string) => void;
   setActiveSession: (sessionId: string | null) => void;
@@ -141,11 +145,15 @@ export function SessionStoreProvider({ children }: { children: ReactNode }) {
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   const createSession = useCallback(
-    (name?: string, sandboxId: string | null = null): ChatSession => {
+    (
+      name?: string,
+      sandboxId: string | null = null,
+      resolution?: ScreenResolution,
+    ): ChatSession => {
       const id = crypto.randomUUID();
       // Use "New Session" as default name, will be updated when first message is added
       const sessionName = name || 'New Session';
-      const session = createSessionHelper(id, sessionName, sandboxId);
+      const session = createSessionHelper(id, sessionName, sandboxId, resolution);
 
       dispatch({ type: 'CREATE_SESSION', session });
 
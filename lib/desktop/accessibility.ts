@@ -0,0 +1,214 @@
+import type { CoordinateScaler, ScreenRegion } from './scaling';
+import type { Desktop } from './types';
+
+const MAX_NODES = 3000; // Per dump, so a large web page can't blow up the result
+const MAX_DEPTH = 40;
+const MAX_VALUE_CHARS = 200;
+const DUMP_TIMEOUT_MS = 30000;
+
+/**
+ * Unnamed nodes of these roles only group other nodes, so their children take their place
+ */
+const CONTAINER_ROLES = new Set([
+  'filler',
+  'panel',
+  'section',
+  'unknown',
+  'layered pane',
+  'scroll pane',
+  'viewport',
+  'redundant object',
+]);
+
+/**
+ * Element of the accessibility tree
+ * Bounds are in model coordinates, like the computer tool's clicks.
+ */
+export interface AccessibilityNode {
+  role: string;
+  name: string;
+  states?: string[]; // Only the states that matter for acting on the element
+  value?: string; // Current text of editable fields
+  bounds?: ScreenRegion;
+  children: AccessibilityNode[];
+}
+
+/**
+ * Accessibility tree of the desktop, one root per application
+ */
+export interface AccessibilityTree {
+  applications: AccessibilityNode[];
+  truncated: boolean; // Node limit reached
+}
+
+/**
+ * Node as printed by the dump script: bounds are [x, y, width, height] in screen pixels
+ */
+interface RawAccessibilityNode extends Omit<AccessibilityNode, 'bounds' | 'children'> {
+  bounds?: [number, number, number, number];
+  children: RawAccessibilityNode[];
+}
+
+/**
+ * Python script run on the desktop: walks AT-SPI and prints the visible tree as JSON
+ * Arguments: max nodes, max depth, max value length, application name filter.
+ */
+const DUMP_SCRIPT = `
+import json, sys
+try:
+    import gi
+    gi.require_version('Atspi', '2.0')
+    from gi.repository import Atspi
+except Exception as error:
+    print(json.dumps({'error': 'AT-SPI bindings are not installed (python3-gi, gir1.2-atspi-2.0): %s' % error}))
+    sys.exit(0)
+
+MAX_NODES, MAX_DEPTH, MAX_VALUE = int(sys.argv[1]), int(sys.argv[2]), int(sys.argv[3])
+APP = sys.argv[4].lower()
+STATES = {'focused', 'checked', 'selected', 'expanded', 'pressed', 'editable', 'required', 'invalid-entry'}
+count = 0
+truncated = False
+
+def walk(node, depth):
+    global count, truncated
+    try:
+        states = set(state.value_nick for state in node.get_state_set().get_states())
+        if depth > 0 and 'showing' not in states:
+            return None
+        if count >= MAX_NODES:
+            truncated = True
+            return None
+        count += 1
+        role = node.get_role_name()
+        entry = {'role': role, 'name': node.get_name() or ''}
+        picked = sorted(STATES & states)
+        if depth > 0 and 'enabled' not in states:
+            picked.append('disabled')
+        if picked:
+            entry['states'] = picked
+        if depth > 0:
+            box = node.get_extents(Atspi.CoordType.SCREEN)
+            if box.width > 0 and box.height > 0:
+                entry['bounds'] = [box.x, box.y, box.width, box.height]
+        if 'editable' in states and role != 'password text':
+            try:
+                entry['value'] = node.get_text(0, min(node.get_character_count(), MAX_VALUE))
+            except Exception:
+                pass
+        children = []
+        if depth < MAX_DEPTH:
+            for index in range(node.get_child_count()):
+                child = node.get_child_at_index(index)
+                walked = walk(child, depth + 1) if child is not None else None
+                if walked is not None:
+                    children.append(walked)
+        entry['children'] = children
+        return entry
+    except Exception:
+        return None
+
+Atspi.set_timeout(1000, 15000)
+applications = []
+root = Atspi.get_desktop(0)
+for index in range(root.get_child_count()):
+    app = root.get_child_at_index(index)
+    if app is None or APP not in (app.get_name() or '').lower():
+        continue
+    walked = walk(app, 0)
+    if walked is not None and walked['children']:
+        applications.append(walked)
+print(json.dumps({'applications': applications, 'truncated': truncated}))
+`;
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Map bounds to model coordinates and fold unnamed grouping nodes into their parents
+ */
+function compactNode(node: RawAccessibilityNode, scaler: CoordinateScaler): AccessibilityNode[] {
+  const children = node.children.flatMap((child) => compactNode(child, scaler));
+  if (!node.name && !node.states && node.value === undefined && CONTAINER_ROLES.has(node.role)) {
+    return children;
+  }
+
+  const compacted: AccessibilityNode = { role: node.role, name: node.name, children };
+  if (node.states) compacted.states = node.states;
+  if (node.value !== undefined) compacted.value = node.value;
+  if (node.bounds) {
+    const [x, y, width, height] = node.bounds;
+    compacted.bounds = [
+      ...scaler.toModel([x, y]),
+      ...scaler.toModel([x + width, y + height]),
+    ];
+  }
+  return [compacted];
+}
+
+/**
+ * Dump the accessibility tree of visible windows, optionally for one application
+ * Applications must have accessibility enabled to show up.
+ */
+export async function getAccessibilityTree(
+  desktop: Desktop,
+  scaler: CoordinateScaler,
+  app = '',
+): Promise<AccessibilityTree> {
+  const args = [MAX_NODES, MAX_DEPTH, MAX_VALUE_CHARS, app].map(String).map(shellQuote).join(' ');
+  const result = await desktop.commands.run(`python3 - ${args} <<'PY'\n${DUMP_SCRIPT}\nPY`, {
+    timeoutMs: DUMP_TIMEOUT_MS,
+  });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || result.error || 'Failed to read the accessibility tree');
+  }
+
+  const dump = JSON.parse(result.stdout) as {
+    applications?: RawAccessibilityNode[];
+    truncated?: boolean;
+    error?: string;
+  };
+  if (dump.error) throw new Error(dump.error);
+  return {
+    applications: (dump.applications ?? []).flatMap((node) => compactNode(node, scaler)),
+    truncated: dump.truncated ?? false,
+  };
+}
+
+/**
+ * Whether the element with keyboard focus is a password field
+ */
+export async function isPasswordFieldFocused(
+  desktop: Desktop,
+  scaler: CoordinateScaler,
+): Promise<boolean> {
+  const tree = await getAccessibilityTree(desktop, scaler);
+  const visit = (node: AccessibilityNode): boolean =>
+    (node.role === 'password text' && (node.states?.includes('focused') ?? false)) ||
+    node.children.some(visit);
+  return tree.applications.some(visit);
+}
+
+/**
+ * One line per node, indented by depth:
+ * `push button "Save" [focused] (10, 20, 90, 44)` with bounds as [x1, y1, x2, y2]
+ */
+export function formatAccessibilityTree(tree: AccessibilityTree): string {
+  const lines: string[] = [];
+  const visit = (node: AccessibilityNode, depth: number) => {
+    let line = `${'  '.repeat(depth)}${node.role}`;
+    if (node.name) line += ` ${JSON.stringify(node.name)}`;
+    if (node.value !== undefined) line += ` value=${JSON.stringify(node.value)}`;
+    if (node.states) line += ` [${node.states.join(', ')}]`;
+    if (node.bounds) line += ` (${node.bounds.join(', ')})`;
+    lines.push(line);
+    node.children.forEach((child) => visit(child, depth + 1));
+  };
+  tree.applications.forEach((app) => visit(app, 0));
+
+  if (lines.length === 0) {
+    return 'No accessible windows found. The application may not have accessibility enabled.';
+  }
+  if (tree.truncated) {
+    lines.push(`(tree truncated at ${MAX_NODES} elements - pass an application name to narrow it down)`);
+  }
+  return lines.join('\n');
+}
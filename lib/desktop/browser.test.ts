@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  formatBrowserResult,
+  getFocusedBrowserPage,
+  isPasswordInput,
+  normalizeUrl,
+  runBrowserAction,
+} from './browser';
+import { createFakeProvider } from './providers/fake';
+import type { Desktop, DesktopCommandResult } from './types';
+
+const ok = (output: object): DesktopCommandResult => ({
+  stdout: `${JSON.stringify(output)}\n`,
+  stderr: '',
+  exitCode: 0,
+});
+
+/**
+ * What the desktop answers to the next script
+ */
+let respond: () => DesktopCommandResult;
+
+const provider = createFakeProvider({ runCommand: () => respond() });
+
+/**
+ * Commands the desktop was asked to run, with their options
+ */
+const runs = () =>
+  provider.calls
+    .filter((call) => call.method === 'commands.run')
+    .map(({ args: [command, opts] }) => ({ command: command as string, opts }));
+
+/**
+ * Arguments of a `python3 - 'a' 'b' <<'PY'` command, unquoted, and the script it feeds in
+ */
+const parseScriptCommand = (command: string) => {
+  const [head, ...body] = command.split('\n');
+  const quoted = head.match(/^python3 - (.*) <<'PY'$/)?.[1] ?? '';
+  const args = [...quoted.matchAll(/'((?:[^']|'\\'')*)'/g)].map(([, arg]) =>
+    arg.replaceAll(`'\\''`, `'`),
+  );
+  return { args, script: body.join('\n') };
+};
+
+let desktop: Desktop;
+
+beforeEach(async () => {
+  provider.reset();
+  desktop = await provider.create({ resolution: [1024, 768] });
+  respond = () => ok({ url: 'https://example.com/', title: 'Example' });
+});
+
+describe('runBrowserAction', () => {
+  it('passes the request to the DevTools script as one quoted argument', async () => {
+    const page = await runBrowserAction(desktop, {
+      action: 'fill',
+      selector: "input[name='surname']",
+      value: "O'Brien; rm -rf ~",
+    });
+
+    expect(page).toEqual({ url: 'https://example.com/', title: 'Example' });
+    const [{ command, opts }] = runs();
+    const { args, script } = parseScriptCommand(command);
+    expect(args.slice(0, 2)).toEqual(['9222', '/tmp/.agent-chrome']);
+    expect(JSON.parse(args[2])).toEqual({
+      action: 'fill',
+      selector: "input[name='surname']",
+      value: "O'Brien; rm -rf ~",
+    });
+    expect(script).toContain('def ensure_browser():');
+    expect(script.endsWith('\nPY')).toBe(true);
+    expect(opts).toMatchObject({ timeoutMs: 45000 });
+  });
+
+  it.each([
+    ['example.com/login', 'https://example.com/login'],
+    ['http://localhost:3000', 'http://localhost:3000'],
+    ['about:blank', 'about:blank'],
+  ])('navigates to %s as %s', async (url, normalized) => {
+    await runBrowserAction(desktop, { action: 'navigate', url });
+
+    const { args } = parseScriptCommand(runs()[0].command);
+    expect(JSON.parse(args[2])).toMatchObject({ action: 'navigate', url: normalized });
+  });
+
+  it.each([
+    [{ action: 'navigate' }, 'url is required for navigate'],
+    [{ action: 'click' }, 'selector is required for click'],
+    [{ action: 'fill', selector: '#name' }, 'value is required for fill'],
+  ] as const)('refuses %j without running anything', async (request, message) => {
+    await expect(runBrowserAction(desktop, request)).rejects.toThrow(message);
+    expect(runs()).toEqual([]);
+  });
+
+  it.each([
+    ['Chrome is missing', 'Chrome or Chromium is not installed on the desktop'],
+    ["the DevTools port doesn't open", 'Chrome did not open its DevTools port 9222'],
+    ['the selector matches nothing', 'No element matches #missing'],
+  ])('reports the script error when %s', async (_, error) => {
+    respond = () => ok({ error });
+
+    await expect(runBrowserAction(desktop, { action: 'click', selector: '#missing' })).rejects.toThrow(
+      error,
+    );
+  });
+
+  it.each([
+    [
+      'python3 is missing',
+      { stdout: '', stderr: 'bash: python3: command not found\n', exitCode: 127 },
+      'bash: python3: command not found',
+    ],
+    [
+      'the script times out',
+      { stdout: '', stderr: '', exitCode: 124, error: 'Command timed out', timedOut: true },
+      'Command timed out',
+    ],
+    ['the script fails silently', { stdout: '', stderr: '', exitCode: 1 }, 'Browser get_url failed'],
+  ])('fails when %s', async (_, result: DesktopCommandResult, message) => {
+    respond = () => result;
+
+    await expect(runBrowserAction(desktop, { action: 'get_url' })).rejects.toThrow(message);
+  });
+
+  it('clips long page content', async () => {
+    respond = () => ok({ url: 'https://example.com/', title: 'Long', content: 'x'.repeat(25000) });
+
+    const page = await runBrowserAction(desktop, { action: 'get_text' });
+
+    expect(page.content).toHaveLength(20000);
+    expect(page.contentTruncated).toBe(true);
+    expect(formatBrowserResult(page)).toMatch(
+      /^URL: https:\/\/example\.com\/\nTitle: Long\n\nx+\n<content clipped at 20000 characters - pass a selector to narrow it down>$/,
+    );
+  });
+});
+
+describe('isPasswordInput', () => {
+  it.each([
+    ['<input name="pw" type="password">', true],
+    ['<input type="text" name="user">', false],
+    ['<form><input type="password"></form>', false],
+  ])('reads %s as %s', async (content, expected) => {
+    respond = () => ok({ url: 'https://example.com/', title: 'Login', content });
+
+    expect(await isPasswordInput(desktop, '#field')).toBe(expected);
+    const { args } = parseScriptCommand(runs()[0].command);
+    expect(JSON.parse(args[2])).toEqual({ action: 'get_dom', selector: '#field' });
+  });
+});
+
+describe('getFocusedBrowserPage', () => {
+  it.each([
+    [{ window: 'Google-chrome', url: 'https://bank.example.com/' }, { browser: true, url: 'https://bank.example.com/' }],
+    [{ window: 'Google-chrome' }, { browser: true }],
+    [{ window: 'firefox' }, { browser: true }],
+    [{ window: 'xterm' }, { browser: false }],
+  ])('reads %j', async (focused, expected) => {
+    respond = () => ok(focused);
+
+    expect(await getFocusedBrowserPage(desktop)).toEqual(expected);
+    const { args, script } = parseScriptCommand(runs()[0].command);
+    expect(args).toEqual(['9222']);
+    // Only reads the DevTools port, so checking focus never opens Chrome
+    expect(script).not.toContain('Popen');
+  });
+
+  it('fails when the focused window can\'t be read', async () => {
+    respond = () => ({ stdout: '', stderr: '', exitCode: 1 });
+
+    await expect(getFocusedBrowserPage(desktop)).rejects.toThrow('Failed to read the focused window');
+  });
+});
+
+describe('normalizeUrl', () => {
+  it.each([
+    ['example.com', 'https://example.com'],
+    ['https://example.com', 'https://example.com'],
+    ['file:///tmp/report.html', 'file:///tmp/report.html'],
+    ['chrome://settings', 'chrome://settings'],
+  ])('turns %s into %s', (url, normalized) => {
+    expect(normalizeUrl(url)).toBe(normalized);
+  });
+});
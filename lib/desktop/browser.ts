@@ -0,0 +1,355 @@
+import type { BrowserEventPayload, BrowserResult } from '@/lib/types/events';
+import type { Desktop } from './types';
+
+const CDP_PORT = 9222;
+const PROFILE_DIR = '/tmp/.agent-chrome'; // Separate profile, so a running Chrome doesn't swallow the launch
+const ACTION_TIMEOUT_MS = 45000;
+const FOCUS_CHECK_TIMEOUT_MS = 10000;
+const MAX_CONTENT_CHARS = 20000;
+
+/**
+ * Python script run on the desktop: starts Chrome with remote debugging if needed,
+ * then drives the active tab over the DevTools protocol with a minimal WebSocket client.
+ * Arguments: port, profile directory, JSON request. Prints the page state or an error as JSON.
+ */
+const CDP_SCRIPT = String.raw`
+import base64, json, os, shutil, socket, struct, subprocess, sys, time, urllib.request
+from urllib.parse import urlparse
+
+PORT, PROFILE = int(sys.argv[1]), sys.argv[2]
+REQUEST = json.loads(sys.argv[3])
+TIMEOUT = 15
+
+def http_json(path, method='GET'):
+    request = urllib.request.Request('http://127.0.0.1:%d%s' % (PORT, path), method=method)
+    with urllib.request.urlopen(request, timeout=2) as response:
+        return json.loads(response.read())
+
+def ensure_browser():
+    try:
+        return http_json('/json/version')
+    except Exception:
+        pass
+    binary = next(filter(None, map(shutil.which, ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser'])), None)
+    if binary is None:
+        raise RuntimeError('Chrome or Chromium is not installed on the desktop')
+    subprocess.Popen(
+        [binary, '--remote-debugging-port=%d' % PORT, '--user-data-dir=' + PROFILE,
+         '--no-first-run', '--no-default-browser-check', '--start-maximized', 'about:blank'],
+        stdin=subprocess.DEVNULL, stdout=subprocess.DEVNULL, stderr=subprocess.DEVNULL,
+        start_new_session=True, env=dict(os.environ, DISPLAY=os.environ.get('DISPLAY', ':0')))
+    deadline = time.time() + TIMEOUT
+    while time.time() < deadline:
+        try:
+            return http_json('/json/version')
+        except Exception:
+            time.sleep(0.3)
+    raise RuntimeError('Chrome did not open its DevTools port %d' % PORT)
+
+class DevTools:
+    def __init__(self, url):
+        parts = urlparse(url)
+        self.sock = socket.create_connection((parts.hostname, parts.port), timeout=TIMEOUT)
+        key = base64.b64encode(os.urandom(16)).decode()
+        handshake = (
+            'GET %s HTTP/1.1\r\nHost: %s:%d\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n'
+            'Sec-WebSocket-Key: %s\r\nSec-WebSocket-Version: 13\r\n\r\n'
+        ) % (parts.path, parts.hostname, parts.port, key)
+        self.sock.sendall(handshake.encode())
+        response = b''
+        while b'\r\n\r\n' not in response:
+            chunk = self.sock.recv(4096)
+            if not chunk:
+                raise RuntimeError('DevTools connection closed during the handshake')
+            response += chunk
+        head, self.buffer = response.split(b'\r\n\r\n', 1)
+        if b' 101 ' not in head.split(b'\r\n')[0]:
+            raise RuntimeError('DevTools refused the connection: %s' % head.split(b'\r\n')[0].decode())
+        self.last_id = 0
+
+    def read(self, size):
+        while len(self.buffer) < size:
+            chunk = self.sock.recv(65536)
+            if not chunk:
+                raise RuntimeError('DevTools connection closed')
+            self.buffer += chunk
+        data, self.buffer = self.buffer[:size], self.buffer[size:]
+        return data
+
+    def send(self, text):
+        payload = text.encode()
+        header = bytearray([0x81])
+        if len(payload) < 126:
+            header.append(0x80 | len(payload))
+        elif len(payload) < 65536:
+            header.append(0x80 | 126)
+            header += struct.pack('>H', len(payload))
+        else:
+            header.append(0x80 | 127)
+            header += struct.pack('>Q', len(payload))
+        mask = os.urandom(4)
+        self.sock.sendall(bytes(header) + mask + bytes(b ^ mask[i % 4] for i, b in enumerate(payload)))
+
+    def receive(self):
+        message = b''
+        while True:
+            first, second = self.read(2)
+            size = second & 0x7f
+            if size == 126:
+                size = struct.unpack('>H', self.read(2))[0]
+            elif size == 127:
+                size = struct.unpack('>Q', self.read(8))[0]
+            data = self.read(size)
+            opcode = first & 0x0f
+            if opcode == 8:
+                raise RuntimeError('DevTools connection closed')
+            if opcode in (0, 1, 2):
+                message += data
+                if first & 0x80:
+                    return message.decode()
+
+    def call(self, method, **params):
+        self.last_id += 1
+        self.send(json.dumps({'id': self.last_id, 'method': method, 'params': params}))
+        while True:
+            message = json.loads(self.receive())
+            if message.get('id') == self.last_id:
+                if 'error' in message:
+                    raise RuntimeError(message['error'].get('message', 'DevTools call failed'))
+                return message.get('result', {})
+
+    def evaluate(self, expression):
+        result = self.call('Runtime.evaluate', expression=expression, returnByValue=True, awaitPromise=True)
+        if 'exceptionDetails' in result:
+            details = result['exceptionDetails']
+            message = (details.get('exception', {}).get('description') or details.get('text')).split('\n')[0]
+            raise RuntimeError(message[len('Error: '):] if message.startswith('Error: ') else message)
+        return result['result'].get('value')
+
+    def wait_for_load(self):
+        time.sleep(0.3)
+        deadline = time.time() + TIMEOUT
+        while time.time() < deadline:
+            try:
+                if self.evaluate('document.readyState') == 'complete':
+                    return
+            except RuntimeError:
+                pass  # Context destroyed while navigating
+            time.sleep(0.2)
+
+FIND = r'''
+const find = (selector) => {
+  const element = document.querySelector(selector);
+  if (!element) throw new Error('No element matches ' + selector);
+  element.scrollIntoView({ block: 'center' });
+  return element;
+};
+'''
+
+CLICK_JS = FIND + r'''
+(() => { const element = find(%s); element.focus(); element.click(); return true; })()
+'''
+
+FILL_JS = FIND + r'''
+(() => {
+  const element = find(%s);
+  const value = %s;
+  element.focus();
+  if (element.isContentEditable) {
+    element.textContent = value;
+  } else if (element.tagName === 'SELECT') {
+    const option = [...element.options].find((option) => option.value === value || option.text.trim() === value);
+    if (!option) throw new Error('No option matches ' + value);
+    element.value = option.value;
+  } else {
+    const prototype = element.tagName === 'TEXTAREA' ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+    Object.getOwnPropertyDescriptor(prototype, 'value').set.call(element, value);
+  }
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+  return true;
+})()
+'''
+
+TEXT_JS = r'''
+(() => {
+  const selector = %s;
+  const root = selector ? document.querySelector(selector) : document.body;
+  if (!root) throw new Error('No element matches ' + selector);
+  return root.innerText;
+})()
+'''
+
+# Strips scripts, styles and most attributes; current form values are copied into the markup
+DOM_JS = r'''
+(() => {
+  const selector = %s;
+  const root = selector ? document.querySelector(selector) : document.body;
+  if (!root) throw new Error('No element matches ' + selector);
+  const keep = ['id', 'name', 'type', 'value', 'placeholder', 'href', 'alt', 'title', 'role', 'for', 'class',
+    'aria-label', 'aria-expanded', 'aria-checked', 'checked', 'selected', 'disabled', 'required'];
+  const clone = root.cloneNode(true);
+  const fields = root.querySelectorAll('input, textarea, select');
+  clone.querySelectorAll('input, textarea, select').forEach((field, index) => {
+    if (field.type !== 'password') field.setAttribute('value', fields[index].value);
+  });
+  clone.querySelectorAll('script, style, noscript, template, svg, link, meta').forEach((node) => node.remove());
+  [clone, ...clone.querySelectorAll('*')].forEach((node) => {
+    [...node.attributes].forEach((attribute) => {
+      if (!keep.includes(attribute.name)) node.removeAttribute(attribute.name);
+    });
+  });
+  return clone.outerHTML.replace(/\s+/g, ' ');
+})()
+'''
+
+def run():
+    ensure_browser()
+    pages = [target for target in http_json('/json/list') if target.get('type') == 'page']
+    page = pages[0] if pages else http_json('/json/new?about:blank', method='PUT')
+    tools = DevTools(page['webSocketDebuggerUrl'])
+    tools.call('Page.bringToFront')
+
+    action, selector = REQUEST['action'], REQUEST.get('selector')
+    output = {}
+    if action == 'navigate':
+        navigation = tools.call('Page.navigate', url=REQUEST['url'])
+        if navigation.get('errorText'):
+            raise RuntimeError('Navigation failed: %s' % navigation['errorText'])
+        tools.wait_for_load()
+    elif action == 'click':
+        tools.evaluate(CLICK_JS % json.dumps(selector))
+        tools.wait_for_load()  # In case the click navigated
+    elif action == 'fill':
+        tools.evaluate(FILL_JS % (json.dumps(selector), json.dumps(REQUEST['value'])))
+    elif action == 'get_text':
+        output['content'] = tools.evaluate(TEXT_JS % json.dumps(selector))
+    elif action == 'get_dom':
+        output['content'] = tools.evaluate(DOM_JS % json.dumps(selector))
+    output['url'] = tools.evaluate('location.href')
+    output['title'] = tools.evaluate('document.title')
+    return output
+
+try:
+    print(json.dumps(run()))
+except Exception as error:
+    print(json.dumps({'error': str(error)}))
+`;
+
+/**
+ * Python script run on the desktop: prints the focused window's class and, for Chrome,
+ * the active tab's URL from the DevTools port as JSON. Never starts Chrome.
+ * Argument: port.
+ */
+const FOCUSED_PAGE_SCRIPT = String.raw`
+import json, subprocess, sys, urllib.request
+
+PORT = int(sys.argv[1])
+window = subprocess.run(['xdotool', 'getactivewindow', 'getwindowclassname'],
+                        capture_output=True, text=True, timeout=5).stdout.strip()
+output = {'window': window}
+if 'chrom' in window.lower():
+    try:
+        with urllib.request.urlopen('http://127.0.0.1:%d/json/list' % PORT, timeout=2) as response:
+            pages = [target for target in json.loads(response.read()) if target.get('type') == 'page']
+        if pages:
+            output['url'] = pages[0]['url']
+    except Exception:
+        pass  # Chrome without remote debugging: the page can't be read
+print(json.dumps(output))
+`;
+
+/**
+ * Window classes of web browsers
+ */
+const BROWSER_WINDOW_CLASS = /chrom|firefox|navigator|brave|edge|opera|vivaldi/i;
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Add https:// to bare hosts like "example.com"
+ */
+export function normalizeUrl(url: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+}
+
+/**
+ * Run a browser action on the desktop's Chrome, starting Chrome with remote debugging if needed
+ */
+export async function runBrowserAction(
+  desktop: Desktop,
+  request: BrowserEventPayload,
+  signal?: AbortSignal,
+): Promise<BrowserResult> {
+  const { action, url, selector, value } = request;
+  if (action === 'navigate' && !url) throw new Error('url is required for navigate');
+  if ((action === 'click' || action === 'fill') && !selector) {
+    throw new Error(`selector is required for ${action}`);
+  }
+  if (action === 'fill' && value === undefined) throw new Error('value is required for fill');
+
+  const payload = JSON.stringify({ action, selector, value, url: url && normalizeUrl(url) });
+  const args = [String(CDP_PORT), PROFILE_DIR, payload].map(shellQuote).join(' ');
+  const result = await desktop.commands.run(`python3 - ${args} <<'PY'\n${CDP_SCRIPT}\nPY`, {
+    timeoutMs: ACTION_TIMEOUT_MS,
+    signal,
+  });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || result.error || `Browser ${action} failed`);
+  }
+
+  const output = JSON.parse(result.stdout) as Partial<BrowserResult> & { error?: string };
+  if (output.error) throw new Error(output.error);
+
+  const page: BrowserResult = { url: output.url ?? '', title: output.title ?? '' };
+  if (output.content !== undefined) {
+    page.content = output.content.slice(0, MAX_CONTENT_CHARS);
+    page.contentTruncated = output.content.length > MAX_CONTENT_CHARS;
+  }
+  return page;
+}
+
+/**
+ * Page in the focused window, for checking computer tool input against the approval policy
+ * `url` is only known for the Chrome the browser tool drives; other browsers report none.
+ */
+export async function getFocusedBrowserPage(
+  desktop: Desktop,
+  signal?: AbortSignal,
+): Promise<{ browser: boolean; url?: string }> {
+  const result = await desktop.commands.run(
+    `python3 - ${shellQuote(String(CDP_PORT))} <<'PY'\n${FOCUSED_PAGE_SCRIPT}\nPY`,
+    { timeoutMs: FOCUS_CHECK_TIMEOUT_MS, signal },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || result.error || 'Failed to read the focused window');
+  }
+  const { window, url } = JSON.parse(result.stdout) as { window: string; url?: string };
+  return { browser: BROWSER_WINDOW_CLASS.test(window), url };
+}
+
+/**
+ * Whether a selector points at a password input
+ */
+export async function isPasswordInput(
+  desktop: Desktop,
+  selector: string,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const { content } = await runBrowserAction(desktop, { action: 'get_dom', selector }, signal);
+  return /^<input\b[^>]*\btype="password"/i.test(content ?? '');
+}
+
+/**
+ * Page state as text for the model
+ */
+export function formatBrowserResult(page: BrowserResult): string {
+  const lines = [`URL: ${page.url}`, `Title: ${page.title}`];
+  if (page.content !== undefined) {
+    lines.push('', page.content);
+    if (page.contentTruncated) {
+      lines.push(`<content clipped at ${MAX_CONTENT_CHARS} characters - pass a selector to narrow it down>`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createFile, insertInFile, replaceInFile, undoEdit } from './editor';
+import type { Desktop } from './types';
+
+const PATH = '/home/user/app.py';
+
+/**
+ * Desktop with an in-memory filesystem; the editor's only shell command is its path check
+ */
+const createFileDesktop = (files: Map<string, string>) =>
+  ({
+    files: {
+      read: async (path) => {
+        const content = files.get(path);
+        if (content === undefined) throw new Error(`File not found: ${path}`);
+        return content;
+      },
+      write: async (path, content) => {
+        files.set(path, content);
+      },
+    },
+    commands: {
+      run: async (command) => {
+        const path = /\[ -d '([^']*)' \]/.exec(command)?.[1] ?? '';
+        const isDirectory = [...files.keys()].some((file) => file.startsWith(`${path}/`));
+        const kind = isDirectory ? 'directory' : files.has(path) ? 'file' : 'missing';
+        return { stdout: `${kind}\n`, stderr: '', exitCode: 0 };
+      },
+    },
+  }) as Pick<Desktop, 'files' | 'commands'> as Desktop;
+
+describe('editor', () => {
+  let files: Map<string, string>;
+  let desktop: Desktop;
+
+  beforeEach(() => {
+    files = new Map([[PATH, 'import os\n\ndef main():\n    print("hi")\n    print("hi")\n']]);
+    desktop = createFileDesktop(files);
+  });
+
+  describe('str_replace', () => {
+    it('replaces a unique match and shows a numbered snippet', async () => {
+      const result = await replaceInFile(desktop, PATH, 'import os', 'import sys');
+
+      expect(files.get(PATH)).toBe('import sys\n\ndef main():\n    print("hi")\n    print("hi")\n');
+      expect(result.output).toContain(`The file ${PATH} has been edited.`);
+      expect(result.output).toContain('     1\timport sys\n     2\t\n     3\tdef main():');
+      expect(result.diff.filter((line) => line.type === 'remove' || line.type === 'add')).toEqual([
+        { type: 'remove', text: 'import os', oldLine: 1 },
+        { type: 'add', text: 'import sys', newLine: 1 },
+      ]);
+    });
+
+    it.each([
+      ['no match', 'import re'],
+      ['an empty old_str', ''],
+    ])('refuses %s and leaves the file alone', async (_, oldStr) => {
+      await expect(replaceInFile(desktop, PATH, oldStr, 'x')).rejects.toThrow(
+        `No replacement was performed, old_str \`${oldStr}\` did not appear verbatim in ${PATH}.`,
+      );
+      expect(files.get(PATH)).toBe('import os\n\ndef main():\n    print("hi")\n    print("hi")\n');
+    });
+
+    it('refuses several matches and names their lines', async () => {
+      await expect(replaceInFile(desktop, PATH, 'print("hi")', 'print("bye")')).rejects.toThrow(
+        'No replacement was performed. Multiple occurrences of old_str `print("hi")` in lines 4, 5. Please ensure it is unique.',
+      );
+      expect(files.get(PATH)).toContain('print("hi")\n    print("hi")');
+    });
+
+    it('takes multi-line matches that make a repeated line unique', async () => {
+      await replaceInFile(desktop, PATH, '    print("hi")\n    print("hi")\n', '    print("hi")\n');
+
+      expect(files.get(PATH)).toBe('import os\n\ndef main():\n    print("hi")\n');
+    });
+  });
+
+  describe('insert', () => {
+    it('inserts at the top for line 0', async () => {
+      const result = await insertInFile(desktop, PATH, 0, '#!/usr/bin/env python3');
+
+      expect(files.get(PATH)).toMatch(/^#!\/usr\/bin\/env python3\nimport os\n/);
+      expect(result.diff).toContainEqual({ type: 'add', text: '#!/usr/bin/env python3', newLine: 1 });
+    });
+
+    it('inserts after the last line', async () => {
+      // The final newline makes an empty sixth line
+      await insertInFile(desktop, PATH, 6, 'main()');
+
+      expect(files.get(PATH)).toBe('import os\n\ndef main():\n    print("hi")\n    print("hi")\n\nmain()');
+    });
+
+    it('inserts several lines after a given line', async () => {
+      await insertInFile(desktop, PATH, 1, 'import re\nimport sys');
+
+      expect(files.get(PATH)).toMatch(/^import os\nimport re\nimport sys\n\ndef main/);
+    });
+
+    it.each([-1, 7])('refuses line %d', async (line) => {
+      await expect(insertInFile(desktop, PATH, line, 'x')).rejects.toThrow(
+        `Invalid \`insert_line\` parameter: ${line}. It should be within the range of lines of the file: [0, 6].`,
+      );
+    });
+  });
+
+  describe('undo_edit', () => {
+    it('reverts edits one at a time, newest first', async () => {
+      const original = files.get(PATH);
+      await replaceInFile(desktop, PATH, 'import os', 'import sys');
+      const afterFirst = files.get(PATH);
+      await insertInFile(desktop, PATH, 0, '# header');
+
+      const result = await undoEdit(desktop, PATH);
+      expect(files.get(PATH)).toBe(afterFirst);
+      expect(result.output).toContain(`Last edit to ${PATH} undone successfully.`);
+      expect(result.diff).toContainEqual({ type: 'remove', text: '# header', oldLine: 1 });
+
+      await undoEdit(desktop, PATH);
+      expect(files.get(PATH)).toBe(original);
+
+      await expect(undoEdit(desktop, PATH)).rejects.toThrow(`No edit history found for ${PATH}.`);
+    });
+
+    it('keeps the last 10 steps', async () => {
+      for (let i = 1; i <= 12; i++) await insertInFile(desktop, PATH, 0, `# ${i}`);
+
+      for (let i = 0; i < 10; i++) await undoEdit(desktop, PATH);
+
+      expect(files.get(PATH)).toMatch(/^# 2\n# 1\nimport os/);
+      await expect(undoEdit(desktop, PATH)).rejects.toThrow('No edit history found');
+    });
+
+    it("doesn't undo a create", async () => {
+      await createFile(desktop, '/home/user/new.txt', 'hello');
+
+      await expect(undoEdit(desktop, '/home/user/new.txt')).rejects.toThrow('No edit history found');
+    });
+  });
+
+  it.each([
+    ['a relative path', 'app.py', 'is not an absolute path'],
+    ['a missing file', '/home/user/missing.py', 'does not exist'],
+    ['a directory', '/home/user', 'is a directory'],
+  ])('refuses to edit %s', async (_, path, message) => {
+    await expect(replaceInFile(desktop, path, 'a', 'b')).rejects.toThrow(message);
+    await expect(insertInFile(desktop, path, 0, 'a')).rejects.toThrow(message);
+    await expect(undoEdit(desktop, path)).rejects.toThrow(message);
+  });
+});
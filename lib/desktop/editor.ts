@@ -0,0 +1,247 @@
+import { diffLines, type DiffLine } from '@/lib/utils/diff';
+import type { Desktop } from './types';
+
+/**
+ * Directory inside the desktop holding the undo history, one JSON file per edited path
+ */
+const HISTORY_DIR = '/tmp/.agent-editor';
+
+const MAX_UNDO_STEPS = 10; // Per file
+const MAX_VIEW_CHARS = 16000;
+const SNIPPET_LINES = 4; // Lines shown around an edit
+
+/**
+ * Result of a file edit: the message for the model and a diff for the UI
+ */
+export interface FileEditResult {
+  output: string;
+  diff: DiffLine[];
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const historyFile = (path: string) =>
+  `${HISTORY_DIR}/${Buffer.from(path).toString('base64url')}.json`;
+
+function assertAbsolute(path: string) {
+  if (!path.startsWith('/')) {
+    throw new Error(`The path ${path} is not an absolute path, it should start with \`/\`.`);
+  }
+}
+
+async function pathKind(desktop: Desktop, path: string): Promise<'file' | 'directory' | 'missing'> {
+  const quoted = shellQuote(path);
+  const result = await desktop.commands.run(
+    `if [ -d ${quoted} ]; then echo directory; elif [ -e ${quoted} ]; then echo file; else echo missing; fi`,
+  );
+  return result.stdout.trim() as 'file' | 'directory' | 'missing';
+}
+
+async function readExistingFile(desktop: Desktop, path: string): Promise<string> {
+  assertAbsolute(path);
+  const kind = await pathKind(desktop, path);
+  if (kind === 'missing') {
+    throw new Error(`The path ${path} does not exist. Please provide a valid path.`);
+  }
+  if (kind === 'directory') {
+    throw new Error(`The path ${path} is a directory and only the \`view\` command can be used on directories.`);
+  }
+  return desktop.files.read(path);
+}
+
+async function readHistory(desktop: Desktop, path: string): Promise<string[]> {
+  try {
+    return JSON.parse(await desktop.files.read(historyFile(path))) as string[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write new content, remembering the previous content for undo_edit
+ */
+async function writeWithHistory(desktop: Desktop, path: string, before: string, after: string) {
+  const history = await readHistory(desktop, path);
+  await desktop.files.write(path, after);
+  await desktop.files.write(
+    historyFile(path),
+    JSON.stringify([...history, before].slice(-MAX_UNDO_STEPS)),
+  );
+}
+
+/**
+ * Number lines like `cat -n`, starting at `firstLine`
+ */
+function numberLines(lines: string[], firstLine = 1): string {
+  return lines.map((line, index) => `${String(index + firstLine).padStart(6)}\t${line}`).join('\n');
+}
+
+function truncateView(output: string): string {
+  return output.length > MAX_VIEW_CHARS
+    ? `${output.slice(0, MAX_VIEW_CHARS)}\n<response clipped - use view_range or grep to see the rest>`
+    : output;
+}
+
+/**
+ * Numbered snippet around the lines an edit touched
+ */
+function editSnippet(path: string, content: string, startLine: number, lineCount: number): string {
+  const lines = content.split('\n');
+  const first = Math.max(0, startLine - SNIPPET_LINES);
+  const last = Math.min(lines.length, startLine + lineCount + SNIPPET_LINES);
+  return (
+    `The file ${path} has been edited. Here's the result of running \`cat -n\` on a snippet of ${path}:\n` +
+    `${numberLines(lines.slice(first, last), first + 1)}\n` +
+    'Review the changes and make sure they are as expected. Edit the file again if necessary.'
+  );
+}
+
+/**
+ * Show a file with line numbers, or a directory listing two levels deep
+ */
+export async function viewPath(
+  desktop: Desktop,
+  path: string,
+  viewRange?: number[],
+): Promise<string> {
+  assertAbsolute(path);
+  const kind = await pathKind(desktop, path);
+  if (kind === 'missing') {
+    throw new Error(`The path ${path} does not exist. Please provide a valid path.`);
+  }
+
+  if (kind === 'directory') {
+    if (viewRange) {
+      throw new Error('The `view_range` parameter is not allowed when `path` points to a directory.');
+    }
+    const result = await desktop.commands.run(
+      `find ${shellQuote(path)} -maxdepth 2 -not -path '*/.*' | sort`,
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr.trim() || `Failed to list ${path}`);
+    }
+    return truncateView(
+      `Here's the files and directories up to 2 levels deep in ${path}, excluding hidden items:\n${result.stdout}`,
+    );
+  }
+
+  const lines = (await desktop.files.read(path)).split('\n');
+  let first = 1;
+  let last = lines.length;
+  if (viewRange) {
+    if (viewRange.length !== 2) {
+      throw new Error('Invalid `view_range`. It should be a list of two integers.');
+    }
+    [first, last] = viewRange;
+    if (last === -1) last = lines.length;
+    if (first < 1 || first > lines.length || last < first || last > lines.length) {
+      throw new Error(
+        `Invalid \`view_range\`: [${viewRange.join(', ')}]. The file has ${lines.length} lines.`,
+      );
+    }
+  }
+  return truncateView(
+    `Here's the result of running \`cat -n\` on ${path}:\n${numberLines(lines.slice(first - 1, last), first)}`,
+  );
+}
+
+/**
+ * Create a new file; existing files are edited with str_replace or insert instead
+ */
+export async function createFile(
+  desktop: Desktop,
+  path: string,
+  content: string,
+): Promise<FileEditResult> {
+  assertAbsolute(path);
+  if ((await pathKind(desktop, path)) !== 'missing') {
+    throw new Error(`File already exists at: ${path}. Cannot overwrite files using command \`create\`.`);
+  }
+  await desktop.files.write(path, content);
+  return {
+    output: `File created successfully at: ${path}`,
+    diff: diffLines('', content),
+  };
+}
+
+/**
+ * Replace the single occurrence of `oldStr` in a file
+ */
+export async function replaceInFile(
+  desktop: Desktop,
+  path: string,
+  oldStr: string,
+  newStr = '',
+): Promise<FileEditResult> {
+  const before = await readExistingFile(desktop, path);
+  const occurrences = before.split(oldStr).length - 1;
+  if (!oldStr || occurrences === 0) {
+    throw new Error(
+      `No replacement was performed, old_str \`${oldStr}\` did not appear verbatim in ${path}.`,
+    );
+  }
+  if (occurrences > 1) {
+    const lines = before
+      .split('\n')
+      .flatMap((line, index) => (line.includes(oldStr.split('\n')[0]) ? [index + 1] : []));
+    throw new Error(
+      `No replacement was performed. Multiple occurrences of old_str \`${oldStr}\` in lines ${lines.join(', ')}. Please ensure it is unique.`,
+    );
+  }
+
+  const index = before.indexOf(oldStr);
+  const after = before.slice(0, index) + newStr + before.slice(index + oldStr.length);
+  await writeWithHistory(desktop, path, before, after);
+
+  const startLine = before.slice(0, index).split('\n').length - 1;
+  return {
+    output: editSnippet(path, after, startLine, newStr.split('\n').length),
+    diff: diffLines(before, after),
+  };
+}
+
+/**
+ * Insert text after line `insertLine` (0 inserts at the top)
+ */
+export async function insertInFile(
+  desktop: Desktop,
+  path: string,
+  insertLine: number,
+  text: string,
+): Promise<FileEditResult> {
+  const before = await readExistingFile(desktop, path);
+  const lines = before.split('\n');
+  if (insertLine < 0 || insertLine > lines.length) {
+    throw new Error(
+      `Invalid \`insert_line\` parameter: ${insertLine}. It should be within the range of lines of the file: [0, ${lines.length}].`,
+    );
+  }
+
+  const inserted = text.split('\n');
+  const after = [...lines.slice(0, insertLine), ...inserted, ...lines.slice(insertLine)].join('\n');
+  await writeWithHistory(desktop, path, before, after);
+
+  return {
+    output: editSnippet(path, after, insertLine, inserted.length),
+    diff: diffLines(before, after),
+  };
+}
+
+/**
+ * Revert the last str_replace or insert on a file
+ */
+export async function undoEdit(desktop: Desktop, path: string): Promise<FileEditResult> {
+  const current = await readExistingFile(desktop, path);
+  const history = await readHistory(desktop, path);
+  const previous = history.pop();
+  if (previous === undefined) {
+    throw new Error(`No edit history found for ${path}.`);
+  }
+
+  await desktop.files.write(path, previous);
+  await desktop.files.write(historyFile(path), JSON.stringify(history));
+  return {
+    output: `Last edit to ${path} undone successfully. Here's the result of running \`cat -n\` on ${path}:\n${truncateView(numberLines(previous.split('\n')))}`,
+    diff: diffLines(current, previous),
+  };
+}
@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { encodeScreenshot, getScreenshotEncoding, type ScreenshotEncoding } from './encoding';
+
+describe('getScreenshotEncoding', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const withEnv = (env: Record<string, string>) => {
+    vi.stubEnv('SCREENSHOT_FORMAT', undefined);
+    vi.stubEnv('SCREENSHOT_QUALITY', undefined);
+    vi.stubEnv('SCREENSHOT_GRAYSCALE', undefined);
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    return getScreenshotEncoding();
+  };
+
+  it('defaults to full-color PNG', () => {
+    expect(withEnv({})).toEqual({ format: 'png', quality: 80, grayscale: false });
+  });
+
+  it.each([
+    ['jpeg', 'jpeg'],
+    ['WebP', 'webp'],
+    ['png', 'png'],
+    ['gif', 'png'],
+    ['jpg', 'png'],
+    ['', 'png'],
+  ])('reads SCREENSHOT_FORMAT=%j as %s', (value, format) => {
+    expect(withEnv({ SCREENSHOT_FORMAT: value }).format).toBe(format);
+  });
+
+  it.each([
+    ['1', 1],
+    ['100', 100],
+    ['55.6', 56],
+    ['0', 80],
+    ['101', 80],
+    ['-20', 80],
+    ['high', 80],
+    ['', 80],
+  ])('reads SCREENSHOT_QUALITY=%j as %d', (value, quality) => {
+    expect(withEnv({ SCREENSHOT_QUALITY: value }).quality).toBe(quality);
+  });
+
+  it.each([
+    ['true', true],
+    ['false', false],
+    ['TRUE', false],
+    ['1', false],
+  ])('reads SCREENSHOT_GRAYSCALE=%j as %s', (value, grayscale) => {
+    expect(withEnv({ SCREENSHOT_GRAYSCALE: value }).grayscale).toBe(grayscale);
+  });
+});
+
+describe('encodeScreenshot', () => {
+  let screenshot: Uint8Array;
+
+  const encode = (encoding: Partial<ScreenshotEncoding>) =>
+    encodeScreenshot(screenshot, { format: 'png', quality: 80, grayscale: false, ...encoding });
+
+  beforeAll(async () => {
+    // Color noise, so quality settings change the size
+    const pixels = Buffer.alloc(200 * 100 * 3);
+    for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 7919) % 251;
+    screenshot = new Uint8Array(
+      await sharp(pixels, { raw: { width: 200, height: 100, channels: 3 } }).png().toBuffer(),
+    );
+  });
+
+  it('passes plain PNG through untouched', async () => {
+    const { data, mimeType } = await encode({});
+
+    expect(data).toBe(screenshot);
+    expect(mimeType).toBe('image/png');
+  });
+
+  it.each([
+    ['png', true],
+    ['jpeg', false],
+    ['jpeg', true],
+    ['webp', false],
+  ] as const)('encodes %s with grayscale %s', async (format, grayscale) => {
+    const { data, mimeType } = await encode({ format, grayscale });
+
+    const metadata = await sharp(data).metadata();
+    expect(mimeType).toBe(`image/${format}`);
+    expect(metadata.format).toBe(format);
+    expect([metadata.width, metadata.height]).toEqual([200, 100]);
+    expect(metadata.channels).toBe(grayscale ? 1 : 3);
+  });
+
+  it.each(['jpeg', 'webp'] as const)('uses the quality setting for %s', async (format) => {
+    const low = await encode({ format, quality: 10 });
+    const high = await encode({ format, quality: 95 });
+
+    expect(low.data.length).toBeLessThan(high.data.length);
+  });
+});
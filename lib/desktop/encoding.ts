@@ -0,0 +1,69 @@
+import sharp from 'sharp';
+
+/**
+ * Image formats screenshots can be sent to the model in
+ */
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * How screenshots are encoded before they are returned from a tool
+ */
+export interface ScreenshotEncoding {
+  format: ScreenshotFormat;
+  quality: number; // 1-100, ignored for PNG
+  grayscale: boolean;
+}
+
+/**
+ * Encoded screenshot ready for a tool result
+ */
+export interface EncodedScreenshot {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+const FORMATS: ScreenshotFormat[] = ['png', 'jpeg', 'webp'];
+const DEFAULT_QUALITY = 80;
+
+/**
+ * Read the screenshot encoding from SCREENSHOT_FORMAT, SCREENSHOT_QUALITY and SCREENSHOT_GRAYSCALE
+ */
+export function getScreenshotEncoding(): ScreenshotEncoding {
+  const format = process.env.SCREENSHOT_FORMAT?.toLowerCase() as ScreenshotFormat | undefined;
+  const quality = Number(process.env.SCREENSHOT_QUALITY);
+  return {
+    format: format && FORMATS.includes(format) ? format : 'png',
+    quality: quality >= 1 && quality <= 100 ? Math.round(quality) : DEFAULT_QUALITY,
+    grayscale: process.env.SCREENSHOT_GRAYSCALE === 'true',
+  };
+}
+
+/**
+ * Re-encode a PNG screenshot; plain PNG passes through untouched
+ */
+export async function encodeScreenshot(
+  image: Uint8Array,
+  encoding: ScreenshotEncoding,
+): Promise<EncodedScreenshot> {
+  if (encoding.format === 'png' && !encoding.grayscale) {
+    return { data: image, mimeType: 'image/png' };
+  }
+
+  let pipeline = sharp(image);
+  // Single-channel output, so grayscale actually shrinks the file
+  if (encoding.grayscale) pipeline = pipeline.grayscale().toColourspace('b-w');
+  switch (encoding.format) {
+    case 'jpeg':
+      pipeline = pipeline.jpeg({ quality: encoding.quality, mozjpeg: true });
+      break;
+    case 'webp':
+      pipeline = pipeline.webp({ quality: encoding.quality });
+      break;
+    default:
+      pipeline = pipeline.png();
+  }
+  return {
+    data: new Uint8Array(await pipeline.toBuffer()),
+    mimeType: `image/${encoding.format}`,
+  };
+}
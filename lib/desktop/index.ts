@@ -0,0 +1,58 @@
+import { createE2BProvider } from './providers/e2b';
+import { createFakeProviderFromEnv } from './providers/fake';
+import { createLocalProvider } from './providers/local';
+import type { DesktopProvider, DesktopProviderFactory } from './types';
+
+export type * from './types';
+
+/**
+ * Default provider when DESKTOP_PROVIDER is not set
+ */
+export const DEFAULT_DESKTOP_PROVIDER = 'e2b';
+
+/**
+ * Registered provider factories, keyed by name
+ */
+const factories = new Map<string, DesktopProviderFactory>([
+  ['e2b', createE2BProvider],
+  ['local', createLocalProvider],
+  ['fake', createFakeProviderFromEnv],
+]);
+
+/**
+ * Instantiated providers, created lazily on first use
+ */
+const instances = new Map<string, DesktopProvider>();
+
+/**
+ * Register a desktop provider so it can be selected through DESKTOP_PROVIDER
+ */
+export function registerDesktopProvider(
+  name: string,
+  factory: DesktopProviderFactory,
+): void {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+/**
+ * Get a desktop provider by name, defaulting to the configured provider
+ */
+export function getDesktopProvider(
+  name: string = process.env.DESKTOP_PROVIDER || DEFAULT_DESKTOP_PROVIDER,
+): DesktopProvider {
+  const cached = instances.get(name);
+  if (cached) return cached;
+
+  const factory = factories.get(name);
+  if (!factory) {
+    const available = Array.from(factories.keys()).join(', ');
+    throw new Error(
+      `Unknown desktop provider "${name}". Available providers: ${available}`,
+    );
+  }
+
+  const provider = factory();
+  instances.set(name, provider);
+  return provider;
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHAR_KEYSYMS,
+  KEY_ALIASES,
+  MODIFIER_KEYSYMS,
+  NAMED_KEYSYMS,
+  parseKeyChord,
+  parseKeySequence,
+  toKeysym,
+} from './keys';
+
+/**
+ * Keysym names from X11/keysymdef.h: TTY, motion, misc, keypad, function and modifier keys,
+ * Latin-1 punctuation, letters and digits
+ */
+const X_KEYSYMS = new Set([
+  ...`BackSpace Tab Linefeed Clear Return Pause Scroll_Lock Sys_Req Escape Delete
+    Home Left Up Right Down Prior Page_Up Next Page_Down End Begin
+    Select Print Execute Insert Undo Redo Menu Find Cancel Help Break Mode_switch Num_Lock
+    KP_Space KP_Tab KP_Enter KP_F1 KP_F2 KP_F3 KP_F4 KP_Home KP_Left KP_Up KP_Right KP_Down
+    KP_Prior KP_Page_Up KP_Next KP_Page_Down KP_End KP_Begin KP_Insert KP_Delete KP_Equal
+    KP_Multiply KP_Add KP_Separator KP_Subtract KP_Decimal KP_Divide
+    KP_0 KP_1 KP_2 KP_3 KP_4 KP_5 KP_6 KP_7 KP_8 KP_9
+    Shift_L Shift_R Control_L Control_R Caps_Lock Shift_Lock Meta_L Meta_R Alt_L Alt_R
+    Super_L Super_R Hyper_L Hyper_R ISO_Level3_Shift ISO_Left_Tab
+    space exclam quotedbl numbersign dollar percent ampersand apostrophe parenleft parenright
+    asterisk plus comma minus period slash colon semicolon less equal greater question at
+    bracketleft backslash bracketright asciicircum underscore grave braceleft bar braceright
+    asciitilde`.split(/\s+/),
+  ...Array.from({ length: 35 }, (_, i) => `F${i + 1}`),
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789',
+]);
+
+describe('key tables', () => {
+  it.each(NAMED_KEYSYMS)('%s is an X keysym, accepted in any case', (keysym) => {
+    expect(X_KEYSYMS).toContain(keysym);
+    expect(toKeysym(keysym)).toBe(keysym);
+    expect(toKeysym(keysym.toLowerCase())).toBe(keysym);
+    expect(toKeysym(keysym.toUpperCase())).toBe(keysym);
+  });
+
+  it.each(Object.entries(KEY_ALIASES))('alias %s names the X keysym %s', (alias, keysym) => {
+    expect(X_KEYSYMS).toContain(keysym);
+    expect(toKeysym(alias)).toBe(keysym);
+    expect(toKeysym(alias.toUpperCase())).toBe(keysym);
+  });
+
+  it.each(Object.entries(CHAR_KEYSYMS))('%j is pressed as the X keysym %s', (char, keysym) => {
+    expect(X_KEYSYMS).toContain(keysym);
+    expect(toKeysym(char)).toBe(keysym);
+  });
+
+  it('has an X keysym for every printable ASCII character', () => {
+    for (let code = 0x20; code <= 0x7e; code++) {
+      expect(X_KEYSYMS).toContain(toKeysym(String.fromCharCode(code)));
+    }
+  });
+
+  it.each(MODIFIER_KEYSYMS)('modifier %s is a named keysym', (keysym) => {
+    expect(NAMED_KEYSYMS).toContain(keysym);
+  });
+
+  it("doesn't alias a name that is already a keysym", () => {
+    const named = new Set(NAMED_KEYSYMS.map((keysym) => keysym.toLowerCase()));
+    expect(Object.keys(KEY_ALIASES).filter((alias) => named.has(alias))).toEqual([]);
+  });
+
+  it.each(Array.from({ length: 35 }, (_, i) => `F${i + 1}`))('function key %s is an X keysym', (key) => {
+    expect(X_KEYSYMS).toContain(toKeysym(key.toLowerCase()));
+  });
+});
+
+describe('toKeysym', () => {
+  it.each([
+    // Aliases
+    ['ctrl', 'Control_L'],
+    ['control', 'Control_L'],
+    ['rctrl', 'Control_R'],
+    ['alt', 'Alt_L'],
+    ['altgr', 'ISO_Level3_Shift'],
+    ['cmd', 'Super_L'],
+    ['win', 'Super_L'],
+    ['enter', 'Return'],
+    ['esc', 'Escape'],
+    ['pgdn', 'Page_Down'],
+    ['arrowup', 'Up'],
+    ['prtsc', 'Print'],
+    // Keysyms in any case
+    ['Return', 'Return'],
+    ['return', 'Return'],
+    ['RETURN', 'Return'],
+    ['page_down', 'Page_Down'],
+    ['kp_enter', 'KP_Enter'],
+    ['backspace', 'BackSpace'],
+    ['CTRL', 'Control_L'],
+    // Function and media keys
+    ['F5', 'F5'],
+    ['f12', 'F12'],
+    ['F35', 'F35'],
+    ['XF86AudioMute', 'XF86AudioMute'],
+    // Single characters keep their case; punctuation gets its name
+    ['a', 'a'],
+    ['A', 'A'],
+    ['7', '7'],
+    ['+', 'plus'],
+    ['-', 'minus'],
+    [' ', 'space'],
+    ['/', 'slash'],
+  ])('translates %j to %s', (key, keysym) => {
+    expect(toKeysym(key)).toBe(keysym);
+  });
+
+  it.each(['F36', 'F0', 'foo', 'ctrlx', 'Page Down', 'xf86', ''])('rejects %j', (key) => {
+    expect(() => toKeysym(key)).toThrow(/Unknown key/);
+  });
+});
+
+describe('parseKeyChord', () => {
+  it.each([
+    ['ctrl+c', ['Control_L', 'c']],
+    ['ctrl+shift+t', ['Control_L', 'Shift_L', 't']],
+    ['Ctrl+Shift+T', ['Control_L', 'Shift_L', 'T']],
+    ['super+Left', ['Super_L', 'Left']],
+    ['alt+F4', ['Alt_L', 'F4']],
+    [' ctrl + a ', ['Control_L', 'a']],
+    ['ctrl++', ['Control_L', 'plus']],
+    ['+', ['plus']],
+    ['Return', ['Return']],
+  ])('parses %j', (chord, keys) => {
+    expect(parseKeyChord(chord)).toEqual(keys);
+  });
+
+  it.each([
+    ['', /Empty key combination/],
+    ['   ', /Empty key combination/],
+    ['ctrl+', /Invalid key combination/],
+    ['+c', /Invalid key combination/],
+    ['ctrl++c', /Invalid key combination/],
+    ['ctrl+nope', /Unknown key "nope"/],
+  ])('rejects %j', (chord, message) => {
+    expect(() => parseKeyChord(chord)).toThrow(message);
+  });
+});
+
+describe('parseKeySequence', () => {
+  it.each([
+    ['Return', [{ keys: ['Return'], repeat: 1 }]],
+    [
+      'ctrl+a Delete',
+      [
+        { keys: ['Control_L', 'a'], repeat: 1 },
+        { keys: ['Delete'], repeat: 1 },
+      ],
+    ],
+    ['Down*3', [{ keys: ['Down'], repeat: 3 }]],
+    ['ctrl+z*2', [{ keys: ['Control_L', 'z'], repeat: 2 }]],
+    ['  Tab   Tab  ', [{ keys: ['Tab'], repeat: 1 }, { keys: ['Tab'], repeat: 1 }]],
+    // Repeated chords
+    ['ctrl+shift+Tab*2', [{ keys: ['Control_L', 'Shift_L', 'Tab'], repeat: 2 }]],
+    ['alt+F4*1', [{ keys: ['Alt_L', 'F4'], repeat: 1 }]],
+    ['shift+Down*100', [{ keys: ['Shift_L', 'Down'], repeat: 100 }]],
+    ['ctrl++*3', [{ keys: ['Control_L', 'plus'], repeat: 3 }]],
+    ['ctrl+**2', [{ keys: ['Control_L', 'asterisk'], repeat: 2 }]],
+    ['**4', [{ keys: ['asterisk'], repeat: 4 }]],
+    ['Down*007', [{ keys: ['Down'], repeat: 7 }]],
+    [
+      'ctrl+a*1 BackSpace*5 ctrl+z*2',
+      [
+        { keys: ['Control_L', 'a'], repeat: 1 },
+        { keys: ['BackSpace'], repeat: 5 },
+        { keys: ['Control_L', 'z'], repeat: 2 },
+      ],
+    ],
+  ])('parses %j', (text, presses) => {
+    expect(parseKeySequence(text)).toEqual(presses);
+  });
+
+  it.each([
+    ['', /No keys given/],
+    ['Down*0', /between 1 and 100/],
+    ['Down*101', /between 1 and 100/],
+    ['Return nope', /Unknown key "nope"/],
+    ['ctrl+c*0', /between 1 and 100, got 0/],
+    ['ctrl+shift+t*250', /between 1 and 100, got 250/],
+    ['ctrl+c*', /Unknown key "c\*"/],
+    ['*3', /Unknown key "\*3"/],
+    ['Down*1.5', /Unknown key "Down\*1.5"/],
+    ['ctrl+*3', /Invalid key combination "ctrl\+"/],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseKeySequence(text)).toThrow(message);
+  });
+});
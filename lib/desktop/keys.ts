@@ -0,0 +1,209 @@
+/**
+ * X keysym translation for keyboard actions
+ * The model emits xdotool syntax ("ctrl+shift+t", "Page_Down", "KP_Enter"); providers
+ * receive canonical X keysyms so every backend presses the same keys.
+ */
+
+/**
+ * Keysyms that can be left held down by hold_key or modifier clicks
+ */
+export const MODIFIER_KEYSYMS = [
+  'Control_L', 'Control_R', 'Shift_L', 'Shift_R', 'Alt_L', 'Alt_R', 'Meta_L', 'Meta_R',
+  'Super_L', 'Super_R', 'Hyper_L', 'Hyper_R', 'ISO_Level3_Shift',
+];
+
+/**
+ * Canonical multi-character keysyms, matched case-insensitively
+ */
+export const NAMED_KEYSYMS = [
+  // Modifiers
+  ...MODIFIER_KEYSYMS, 'Caps_Lock', 'Num_Lock', 'Scroll_Lock',
+  // Editing
+  'Return', 'Tab', 'ISO_Left_Tab', 'BackSpace', 'Delete', 'Insert', 'Escape', 'space',
+  // Navigation
+  'Up', 'Down', 'Left', 'Right', 'Home', 'End', 'Page_Up', 'Page_Down', 'Prior', 'Next',
+  'Begin',
+  // Misc function keys
+  'Print', 'Sys_Req', 'Pause', 'Break', 'Menu', 'Help', 'Undo', 'Redo', 'Find',
+  'Cancel', 'Clear',
+  // Keypad
+  'KP_0', 'KP_1', 'KP_2', 'KP_3', 'KP_4', 'KP_5', 'KP_6', 'KP_7', 'KP_8', 'KP_9',
+  'KP_Add', 'KP_Subtract', 'KP_Multiply', 'KP_Divide', 'KP_Decimal', 'KP_Separator',
+  'KP_Equal', 'KP_Enter', 'KP_Space', 'KP_Tab', 'KP_Home', 'KP_End', 'KP_Up', 'KP_Down',
+  'KP_Left', 'KP_Right', 'KP_Page_Up', 'KP_Page_Down', 'KP_Prior', 'KP_Next',
+  'KP_Insert', 'KP_Delete', 'KP_Begin',
+  // Punctuation names
+  'minus', 'plus', 'equal', 'comma', 'period', 'slash', 'backslash', 'semicolon', 'colon',
+  'apostrophe', 'quotedbl', 'grave', 'asciitilde', 'exclam', 'at', 'numbersign', 'dollar',
+  'percent', 'asciicircum', 'ampersand', 'asterisk', 'parenleft', 'parenright',
+  'bracketleft', 'bracketright', 'braceleft', 'braceright', 'less', 'greater', 'question',
+  'underscore', 'bar',
+];
+
+/**
+ * Common names that aren't keysyms, mapped to the keysym they mean
+ */
+export const KEY_ALIASES: Record<string, string> = {
+  ctrl: 'Control_L',
+  control: 'Control_L',
+  ctrl_l: 'Control_L',
+  lctrl: 'Control_L',
+  ctrl_r: 'Control_R',
+  rctrl: 'Control_R',
+  shift: 'Shift_L',
+  lshift: 'Shift_L',
+  rshift: 'Shift_R',
+  alt: 'Alt_L',
+  option: 'Alt_L',
+  lalt: 'Alt_L',
+  ralt: 'Alt_R',
+  altgr: 'ISO_Level3_Shift',
+  meta: 'Meta_L',
+  super: 'Super_L',
+  win: 'Super_L',
+  windows: 'Super_L',
+  cmd: 'Super_L',
+  command: 'Super_L',
+  hyper: 'Hyper_L',
+  capslock: 'Caps_Lock',
+  numlock: 'Num_Lock',
+  scrolllock: 'Scroll_Lock',
+  enter: 'Return',
+  ret: 'Return',
+  esc: 'Escape',
+  bksp: 'BackSpace',
+  del: 'Delete',
+  ins: 'Insert',
+  spacebar: 'space',
+  arrowup: 'Up',
+  arrowdown: 'Down',
+  arrowleft: 'Left',
+  arrowright: 'Right',
+  pageup: 'Page_Up',
+  pgup: 'Page_Up',
+  pagedown: 'Page_Down',
+  pgdn: 'Page_Down',
+  printscreen: 'Print',
+  prtsc: 'Print',
+  apps: 'Menu',
+  context_menu: 'Menu',
+};
+
+/**
+ * Single characters that xdotool only accepts by keysym name
+ */
+export const CHAR_KEYSYMS: Record<string, string> = {
+  ' ': 'space',
+  '-': 'minus',
+  '+': 'plus',
+  '=': 'equal',
+  ',': 'comma',
+  '.': 'period',
+  '/': 'slash',
+  '\\': 'backslash',
+  ';': 'semicolon',
+  ':': 'colon',
+  "'": 'apostrophe',
+  '"': 'quotedbl',
+  '`': 'grave',
+  '~': 'asciitilde',
+  '!': 'exclam',
+  '@': 'at',
+  '#': 'numbersign',
+  $: 'dollar',
+  '%': 'percent',
+  '^': 'asciicircum',
+  '&': 'ampersand',
+  '*': 'asterisk',
+  '(': 'parenleft',
+  ')': 'parenright',
+  '[': 'bracketleft',
+  ']': 'bracketright',
+  '{': 'braceleft',
+  '}': 'braceright',
+  '<': 'less',
+  '>': 'greater',
+  '?': 'question',
+  '_': 'underscore',
+  '|': 'bar',
+};
+
+const KEYSYMS: Record<string, string> = {
+  ...Object.fromEntries(NAMED_KEYSYMS.map((keysym) => [keysym.toLowerCase(), keysym])),
+  ...KEY_ALIASES,
+};
+
+/**
+ * A chord pressed one or more times, e.g. "Down*3" or "ctrl+shift+t"
+ */
+export interface KeyPress {
+  keys: string[]; // X keysyms, pressed together
+  repeat: number;
+}
+
+/**
+ * Translate a single key name to its X keysym
+ * Throws for names xdotool would not understand.
+ */
+export function toKeysym(key: string): string {
+  // Letters, digits and other printable characters are their own keysym
+  if ([...key].length === 1) {
+    return CHAR_KEYSYMS[key] ?? key;
+  }
+
+  const keysym = KEYSYMS[key.toLowerCase()];
+  if (keysym) return keysym;
+
+  const functionKey = /^f([1-9]|[12]\d|3[0-5])$/i.exec(key);
+  if (functionKey) return `F${functionKey[1]}`;
+
+  // Media and hardware keys (XF86AudioMute, XF86MonBrightnessUp, ...)
+  if (/^XF86[A-Za-z0-9_]+$/.test(key)) return key;
+
+  throw new Error(
+    `Unknown key "${key}". Use xdotool key names such as Return, ctrl+c, Page_Down, KP_Enter or F5.`,
+  );
+}
+
+/**
+ * Parse a chord such as "ctrl+shift+t" into keysyms
+ */
+export function parseKeyChord(chord: string): string[] {
+  const trimmed = chord.trim();
+  if (!trimmed) {
+    throw new Error('Empty key combination');
+  }
+  if (trimmed === '+') return [toKeysym('+')];
+
+  // A trailing "++" means the plus key itself, as in "ctrl++"
+  const endsWithPlus = trimmed.endsWith('++');
+  const parts = (endsWithPlus ? trimmed.slice(0, -2) : trimmed).split('+');
+  if (endsWithPlus) parts.push('+');
+
+  if (parts.some((part) => !part.trim())) {
+    throw new Error(`Invalid key combination "${chord}"`);
+  }
+  return parts.map((part) => toKeysym(part.trim()));
+}
+
+/**
+ * Parse an xdotool key sequence into chords
+ * Chords are separated by whitespace and may repeat with a "*N" suffix: "ctrl+a Delete Down*3".
+ */
+export function parseKeySequence(text: string): KeyPress[] {
+  const chords = text.trim().split(/\s+/).filter(Boolean);
+  if (chords.length === 0) {
+    throw new Error('No keys given');
+  }
+
+  return chords.map((chord) => {
+    const repeated = /^(.+)\*(\d+)$/.exec(chord);
+    if (!repeated) return { keys: parseKeyChord(chord), repeat: 1 };
+
+    const repeat = Number(repeated[2]);
+    if (repeat < 1 || repeat > 100) {
+      throw new Error(`Key repeat must be between 1 and 100, got ${repeat}`);
+    }
+    return { keys: parseKeyChord(repeated[1]), repeat };
+  });
+}
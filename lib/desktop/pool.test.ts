@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DesktopPool } from './pool';
+import { createLocalProvider } from './providers/local';
+
+// Simulated X server: Xvfb "starts" a display, xdpyinfo succeeds once it has
+const xserver = vi.hoisted(() => ({ displays: [] as string[] }));
+
+vi.mock('child_process', async () => {
+  const { EventEmitter } = await import('events');
+  return {
+    spawn: vi.fn((file: string, args: string[]) => {
+      if (file === 'Xvfb') xserver.displays.push(args[0]);
+      return Object.assign(new EventEmitter(), { kill: vi.fn(() => true) });
+    }),
+    execFile: vi.fn(
+      (
+        _file: string,
+        _args: string[],
+        opts: { env: NodeJS.ProcessEnv },
+        callback: (error: Error | null, stdout: Buffer, stderr: Buffer) => void,
+      ) => {
+        const up = xserver.displays.includes(opts.env.DISPLAY ?? '');
+        setImmediate(() =>
+          callback(up ? null : new Error('unable to open display'), Buffer.from(''), Buffer.from('')),
+        );
+        return new EventEmitter();
+      },
+    ),
+  };
+});
+
+vi.mock('fs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  existsSync: () => false, // No X lock files from real servers
+}));
+
+describe('DesktopPool', () => {
+  afterEach(() => {
+    xserver.displays.length = 0;
+  });
+
+  it('pre-starts local desktops concurrently on different displays', async () => {
+    const pool = new DesktopPool(
+      createLocalProvider(),
+      { resolution: [1024, 768] },
+      { size: 3, maxIdleMs: 60000 },
+    );
+
+    pool.fill();
+    expect(pool.stats()).toEqual({ idle: 0, pending: 3 });
+    await vi.waitFor(() => expect(pool.stats()).toEqual({ idle: 3, pending: 0 }), {
+      timeout: 5000,
+    });
+
+    expect(xserver.displays).toEqual([':99', ':100', ':101']);
+    const claimed = [await pool.claim(), await pool.claim(), await pool.claim()];
+    expect(new Set(claimed.map((desktop) => desktop?.id))).toEqual(
+      new Set(['local-99', 'local-100', 'local-101']),
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { getDesktopProvider } from './index';
+import type { Desktop, DesktopCreateOptions, DesktopProvider } from './types';
+
+/**
+ * Pool configuration, read from the environment
+ */
+export interface DesktopPoolConfig {
+  size: number; // Number of idle desktops to keep ready (0 disables the pool)
+  maxIdleMs: number; // Idle desktops older than this are killed and replaced
+}
+
+export function readPoolConfig(): DesktopPoolConfig {
+  return {
+    size: Number(process.env.DESKTOP_POOL_SIZE) || 0,
+    // Stay below the 5 minute sandbox timeout so claimed desktops are still alive
+    maxIdleMs: Number(process.env.DESKTOP_POOL_MAX_IDLE_MS) || 240000,
+  };
+}
+
+/**
+ * An idle, pre-started desktop
+ */
+interface PooledDesktop {
+  desktop: Desktop;
+  createdAt: number;
+}
+
+/**
+ * Server-side pool of pre-started desktops
+ * New sessions claim a warm desktop instead of waiting for create + stream start.
+ * The pool is topped up in the background after every claim and on a timer.
+ */
+export class DesktopPool {
+  private idle: PooledDesktop[] = [];
+  private pending = 0;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly provider: DesktopProvider,
+    private readonly createOptions: DesktopCreateOptions,
+    private readonly config: DesktopPoolConfig,
+  ) {}
+
+  /**
+   * Claim a warm desktop, or null if none is ready
+   */
+  async claim(): Promise<Desktop | null> {
+    this.evictStale();
+
+    try {
+      while (this.idle.length > 0) {
+        const { desktop } = this.idle.shift()!;
+        try {
+          // Give the claimed desktop a full timeout from now
+          if (this.createOptions.timeoutMs) {
+            await desktop.keepAlive(this.createOptions.timeoutMs);
+          }
+          return desktop;
+        } catch (error) {
+          console.warn(`Pooled desktop ${desktop.id} is no longer usable:`, error);
+        }
+      }
+      return null;
+    } finally {
+      this.fill();
+    }
+  }
+
+  /**
+   * Start creating desktops until the pool reaches its target size
+   */
+  fill(): void {
+    this.startSweeper();
+
+    const missing = this.config.size - this.idle.length - this.pending;
+    for (let i = 0; i < missing; i++) {
+      this.pending++;
+      this.provider
+        .create(this.createOptions)
+        .then((desktop) => {
+          this.idle.push({ desktop, createdAt: Date.now() });
+        })
+        .catch((error) => {
+          console.error('Failed to pre-start pooled desktop:', error);
+        })
+        .finally(() => {
+          this.pending--;
+        });
+    }
+  }
+
+  /**
+   * Number of ready and starting desktops
+   */
+  stats(): { idle: number; pending: number } {
+    return { idle: this.idle.length, pending: this.pending };
+  }
+
+  /**
+   * Kill idle desktops older than maxIdleMs
+   */
+  private evictStale(): void {
+    const now = Date.now();
+    const stale = this.idle.filter((entry) => now - entry.createdAt > this.config.maxIdleMs);
+    if (stale.length === 0) return;
+
+    this.idle = this.idle.filter((entry) => !stale.includes(entry));
+    for (const { desktop } of stale) {
+      this.provider.kill(desktop.id).catch((error) => {
+        console.warn(`Failed to kill stale pooled desktop ${desktop.id}:`, error);
+      });
+    }
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(
+      () => {
+        this.evictStale();
+        this.fill();
+      },
+      Math.max(this.config.maxIdleMs / 4, 10000),
+    );
+    // Don't keep the process alive just for the pool
+    this.sweepTimer.unref?.();
+  }
+}
+
+/**
+ * Keep the pool on globalThis so dev-server reloads don't leak desktops
+ */
+const globalForPool = globalThis as unknown as { desktopPool?: DesktopPool };
+
+/**
+ * Get the shared desktop pool, or null when DESKTOP_POOL_SIZE is 0
+ */
+export function getDesktopPool(createOptions: DesktopCreateOptions): DesktopPool | null {
+  const config = readPoolConfig();
+  if (config.size <= 0) return null;
+
+  if (!globalForPool.desktopPool) {
+    globalForPool.desktopPool = new DesktopPool(getDesktopProvider(), createOptions, config);
+  }
+  return globalForPool.desktopPool;
+}
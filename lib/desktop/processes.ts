@@ -0,0 +1,216 @@
+import { runInShell } from './shell';
+import type { Desktop } from './types';
+
+/**
+ * Directory inside the desktop holding one folder per background process
+ * Each folder has the command, pid, start time, stdout, stderr and - once it ends - the exit code.
+ */
+const PROCESS_DIR = '/tmp/.agent-processes';
+
+/**
+ * Longest a single wait may block, to stay inside the chat route's maxDuration
+ */
+export const MAX_PROCESS_WAIT_SECONDS = 120;
+
+const DEFAULT_OUTPUT_CHARS = 20000;
+
+export type BackgroundProcessStatus = 'running' | 'exited' | 'killed';
+
+/**
+ * A command started in the background, addressed by its handle `id`
+ */
+export interface BackgroundProcess {
+  id: string;
+  command: string;
+  pid: number;
+  startedAt: number;
+  status: BackgroundProcessStatus;
+  exitCode: number | null;
+}
+
+/**
+ * A background process together with the end of its output
+ */
+export interface BackgroundProcessOutput extends BackgroundProcess {
+  stdout: string;
+  stderr: string;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const isValidId = (id: string) => /^[a-z0-9-]+$/.test(id);
+
+const processDir = (id: string) => {
+  if (!isValidId(id)) {
+    throw new Error(`Invalid process id "${id}"`);
+  }
+  return `${PROCESS_DIR}/${id}`;
+};
+
+/**
+ * Run a helper script on the desktop, throwing if it fails
+ */
+async function runScript(desktop: Desktop, script: string, timeoutMs?: number): Promise<string> {
+  const result = await desktop.commands.run(script, { timeoutMs });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || result.error || `Exited with code ${result.exitCode}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Print one tab-separated status line per process: id, pid, startedAt, exit, killed, alive, base64 command
+ */
+const statusScript = (dirs: string) => `
+for dir in ${dirs}; do
+  [ -f "$dir/pid" ] || continue
+  pid=$(cat "$dir/pid")
+  exit_code=$(cat "$dir/exit" 2>/dev/null)
+  killed=$([ -f "$dir/killed" ] && echo 1 || echo 0)
+  alive=$(ps -o stat= -p "$pid" 2>/dev/null | grep -qv '^Z' && echo 1 || echo 0)
+  printf '%s\\t%s\\t%s\\t%s\\t%s\\t%s\\t%s\\n' "$(basename "$dir")" "$pid" "$(cat "$dir/started")" "$exit_code" "$killed" "$alive" "$(base64 -w0 "$dir/command")"
+done`;
+
+function parseStatusLine(line: string): BackgroundProcess {
+  const [id, pid, startedAt, exit, killed, alive, command] = line.split('\t');
+  // Killed processes (and ones that died without reporting) have no exit code
+  const exitCode = exit === '' ? null : Number(exit);
+  const status: BackgroundProcessStatus =
+    alive === '1' && exitCode === null ? 'running' : killed === '1' ? 'killed' : 'exited';
+  return {
+    id,
+    pid: Number(pid),
+    startedAt: Number(startedAt),
+    status,
+    exitCode,
+    command: Buffer.from(command ?? '', 'base64').toString('utf8'),
+  };
+}
+
+async function getProcess(desktop: Desktop, id: string): Promise<BackgroundProcess> {
+  const dir = processDir(id);
+  const output = await runScript(desktop, statusScript(dir));
+  const line = output.split('\n').find(Boolean);
+  if (!line) {
+    throw new Error(`Process ${id} not found`);
+  }
+  return parseStatusLine(line);
+}
+
+/**
+ * Start a command in the background from the persistent shell's cwd and environment
+ * An optional timeout kills it (exit code 124) once it has run that long.
+ * `resolve` rewrites the command only for running it (e.g. to fill in secrets);
+ * the stored command that `listProcesses` reports is the one passed in.
+ */
+export async function startProcess(
+  desktop: Desktop,
+  command: string,
+  opts: { timeoutSeconds?: number; resolve?: (command: string) => string } = {},
+): Promise<BackgroundProcess> {
+  const id = `p-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  const dir = processDir(id);
+  const run = opts.resolve ? opts.resolve(command) : command;
+  const body = opts.timeoutSeconds
+    ? `timeout ${Math.ceil(opts.timeoutSeconds)} bash -c ${shellQuote(run)}`
+    : run;
+  // setsid gives the process its own group so kill can take its children with it
+  const script = [
+    `mkdir -p ${dir}`,
+    `printf '%s' ${shellQuote(command)} > ${dir}/command`,
+    `date +%s%3N > ${dir}/started`,
+    // The subshell keeps an `exit` in the command from skipping the exit code report
+    `setsid nohup bash -c ${shellQuote(`(\n${body}\n)\necho $? > ${dir}/exit`)} > ${dir}/stdout 2> ${dir}/stderr < /dev/null &`,
+    `echo $! > ${dir}/pid`,
+  ].join('\n');
+
+  const result = await runInShell(desktop, script);
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to start process: ${result.stderr.trim() || result.error}`);
+  }
+  return getProcess(desktop, id);
+}
+
+/**
+ * List every background process started on the desktop, newest first
+ */
+export async function listProcesses(desktop: Desktop): Promise<BackgroundProcess[]> {
+  const output = await runScript(desktop, `mkdir -p ${PROCESS_DIR}\n${statusScript(`${PROCESS_DIR}/*`)}`);
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map(parseStatusLine)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Get a process's status and the last `maxChars` of each output stream
+ */
+export async function pollProcess(
+  desktop: Desktop,
+  id: string,
+  maxChars = DEFAULT_OUTPUT_CHARS,
+): Promise<BackgroundProcessOutput> {
+  const info = await getProcess(desktop, id);
+  const dir = processDir(id);
+
+  const readTail = async (file: string) => {
+    const size = Number(await runScript(desktop, `wc -c < ${dir}/${file}`));
+    const text = await runScript(desktop, `tail -c ${maxChars} ${dir}/${file}`);
+    return { text, truncated: size > maxChars };
+  };
+  const [stdout, stderr] = await Promise.all([readTail('stdout'), readTail('stderr')]);
+
+  return {
+    ...info,
+    stdout: stdout.text,
+    stderr: stderr.text,
+    stdoutTruncated: stdout.truncated,
+    stderrTruncated: stderr.truncated,
+  };
+}
+
+/**
+ * Wait up to `timeoutSeconds` for a process to finish, then poll it
+ * Aborting stops the wait; the process itself keeps running.
+ */
+export async function waitForProcess(
+  desktop: Desktop,
+  id: string,
+  timeoutSeconds: number,
+  signal?: AbortSignal,
+): Promise<BackgroundProcessOutput> {
+  const dir = processDir(id);
+  const seconds = Math.min(Math.max(timeoutSeconds, 1), MAX_PROCESS_WAIT_SECONDS);
+  // The loop exits early once the process reports an exit code or disappears
+  await desktop.commands.run(
+    `timeout ${seconds} bash -c 'while [ ! -f ${dir}/exit ] && kill -0 $(cat ${dir}/pid) 2>/dev/null; do sleep 0.5; done'`,
+    { timeoutMs: (seconds + 10) * 1000, signal },
+  );
+  signal?.throwIfAborted();
+  return pollProcess(desktop, id);
+}
+
+/**
+ * Kill a process and its children (SIGTERM, then SIGKILL after a second)
+ */
+export async function killProcess(desktop: Desktop, id: string): Promise<BackgroundProcess> {
+  const dir = processDir(id);
+  await runScript(
+    desktop,
+    [
+      `[ -f ${dir}/pid ] || { echo 'Process ${id} not found' >&2; exit 1; }`,
+      `pid=$(cat ${dir}/pid)`,
+      `if kill -0 "$pid" 2>/dev/null && [ ! -f ${dir}/exit ]; then`,
+      `  touch ${dir}/killed`,
+      `  kill -TERM -- -"$pid" 2>/dev/null || kill -TERM "$pid" 2>/dev/null`,
+      '  sleep 1',
+      `  kill -KILL -- -"$pid" 2>/dev/null`,
+      'fi',
+      'true',
+    ].join('\n'),
+  );
+  return getProcess(desktop, id);
+}
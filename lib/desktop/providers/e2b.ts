@@ -0,0 +1,232 @@
+import {
+  ApiClient,
+  CommandExitError,
+  ConnectionConfig,
+  Sandbox,
+  TimeoutError,
+} from '@e2b/desktop';
+import type {
+  Desktop,
+  DesktopCommandResult,
+  DesktopCreateOptions,
+  DesktopProvider,
+  MouseButton,
+} from '../types';
+
+/**
+ * xdotool button numbers, for actions the SDK does not wrap
+ */
+const BUTTONS: Record<MouseButton, string> = {
+  left: '1',
+  middle: '2',
+  right: '3',
+};
+
+/**
+ * xdotool buttons for horizontal scrolling
+ */
+const SCROLL_BUTTONS: Record<'left' | 'right', string> = {
+  left: '6',
+  right: '7',
+};
+
+/**
+ * Quote an argument for the sandbox shell
+ */
+const shellQuote = (arg: string) => `'${arg.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Run xdotool inside the sandbox, throwing on failure
+ */
+async function xdotool(sandbox: Sandbox, args: string[]): Promise<void> {
+  try {
+    await sandbox.commands.run(`xdotool ${args.map(shellQuote).join(' ')}`);
+  } catch (error) {
+    if (error instanceof CommandExitError) {
+      throw new Error(`xdotool ${args[0]} failed: ${error.stderr || error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Kill a process and all its descendants
+ * Each one is stopped before its children are listed so it can't start new ones meanwhile.
+ */
+const killTreeScript = (pid: number) =>
+  [
+    'kill_tree() {',
+    '  kill -STOP "$1" 2>/dev/null',
+    '  for child in $(ps -o pid= --ppid "$1"); do kill_tree "$child"; done',
+    '  kill -KILL "$1" 2>/dev/null',
+    '}',
+    `kill_tree ${pid}`,
+  ].join('\n');
+
+/**
+ * Wrap an E2B sandbox in the provider-agnostic desktop interface
+ */
+function toDesktop(sandbox: Sandbox): Desktop {
+  return {
+    id: sandbox.sandboxId,
+    commands: {
+      run: async (command, opts) => {
+        // Collect output as it arrives so timed out commands still report it
+        let stdout = '';
+        let stderr = '';
+        let aborted = false;
+        let onAbort: (() => void) | undefined;
+        try {
+          opts?.signal?.throwIfAborted();
+          // Started in the background so an abort can kill it while it runs
+          const handle = await sandbox.commands.run(command, {
+            background: true,
+            timeoutMs: opts?.timeoutMs,
+            onStdout: (data) => {
+              stdout += data;
+              opts?.onStdout?.(data);
+            },
+            onStderr: (data) => {
+              stderr += data;
+              opts?.onStderr?.(data);
+            },
+          });
+          onAbort = () => {
+            aborted = true;
+            sandbox.commands.run(killTreeScript(handle.pid)).catch((error) => {
+              console.error(`Failed to kill command ${handle.pid}:`, error);
+            });
+          };
+          if (opts?.signal?.aborted) onAbort();
+          else opts?.signal?.addEventListener('abort', onAbort, { once: true });
+
+          const result = await handle.wait();
+          return {
+            stdout: result.stdout,
+            stderr: result.stderr,
+            exitCode: result.exitCode,
+            error: result.error,
+          } satisfies DesktopCommandResult;
+        } catch (error) {
+          if (aborted || opts?.signal?.aborted) {
+            return { stdout, stderr, exitCode: 137, error: 'Command aborted', aborted: true };
+          }
+          // E2B rejects on non-zero exit codes - surface them as results instead
+          if (error instanceof CommandExitError) {
+            return {
+              stdout: error.stdout,
+              stderr: error.stderr,
+              exitCode: error.exitCode,
+              error: error.error ?? error.message,
+            };
+          }
+          if (error instanceof TimeoutError) {
+            return {
+              stdout,
+              stderr,
+              exitCode: 124,
+              error: error.message,
+              timedOut: true,
+            };
+          }
+          throw error;
+        } finally {
+          if (onAbort) opts?.signal?.removeEventListener('abort', onAbort);
+        }
+      },
+    },
+    files: {
+      read: (path) => sandbox.files.read(path),
+      write: async (path, content) => {
+        await sandbox.files.write(path, content);
+      },
+    },
+    screenshot: () => sandbox.screenshot(),
+    moveMouse: (x, y) => sandbox.moveMouse(x, y),
+    click: async (button: MouseButton = 'left', clicks = 1) => {
+      if (clicks > 1) {
+        // Repeated clicks must land in one xdotool call to register as double/triple clicks
+        await xdotool(sandbox, ['click', '--repeat', String(clicks), BUTTONS[button]]);
+        return;
+      }
+      if (button === 'left') await sandbox.leftClick();
+      else if (button === 'right') await sandbox.rightClick();
+      else await sandbox.middleClick();
+    },
+    mouseDown: (button: MouseButton = 'left') => sandbox.mousePress(button),
+    mouseUp: (button: MouseButton = 'left') => sandbox.mouseRelease(button),
+    getCursorPosition: async () => {
+      const { x, y } = await sandbox.getCursorPosition();
+      return [x, y];
+    },
+    write: (text) => sandbox.write(text),
+    // The SDK lowercases keys it doesn't know (KP_Enter -> kp_enter), so send keysyms directly
+    press: (key) => xdotool(sandbox, ['key', '--', (Array.isArray(key) ? key : [key]).join('+')]),
+    keyDown: (keys) => xdotool(sandbox, ['keydown', '--', keys.join('+')]),
+    keyUp: (keys) => xdotool(sandbox, ['keyup', '--', keys.join('+')]),
+    scroll: async (direction, amount) => {
+      if (direction === 'up' || direction === 'down') {
+        await sandbox.scroll(direction, amount);
+        return;
+      }
+      // The SDK only scrolls vertically - horizontal wheel events are buttons 6 and 7
+      await xdotool(sandbox, ['click', '--repeat', String(amount), SCROLL_BUTTONS[direction]]);
+    },
+    drag: (from, to) => sandbox.drag(from, to),
+    getStreamUrl: async () => sandbox.stream.getUrl(),
+    keepAlive: (timeoutMs) => sandbox.setTimeout(timeoutMs),
+  };
+}
+
+/**
+ * Client for E2B API endpoints the SDK does not wrap (pause, state)
+ */
+function createApiClient() {
+  return new ApiClient(new ConnectionConfig());
+}
+
+/**
+ * E2B cloud desktop provider (default)
+ */
+export function createE2BProvider(): DesktopProvider {
+  return {
+    name: 'e2b',
+    create: async ({ resolution, timeoutMs }: DesktopCreateOptions) => {
+      const sandbox = await Sandbox.create({
+        resolution,
+        timeoutMs,
+      });
+      await sandbox.stream.start();
+      return toDesktop(sandbox);
+    },
+    connect: async (id: string) => {
+      // Sandbox.connect() automatically resumes paused sandboxes (per E2B docs)
+      // When connecting to existing sandbox, don't call stream.start() - connect() handles it
+      const sandbox = await Sandbox.connect(id);
+      return toDesktop(sandbox);
+    },
+    pause: async (id: string) => {
+      const res = await createApiClient().api.POST('/sandboxes/{sandboxID}/pause', {
+        params: { path: { sandboxID: id } },
+      });
+      if (res.response.status === 404) {
+        throw new Error(`Sandbox ${id} not found`);
+      }
+      // 409 means the sandbox is already paused
+      if (res.error && res.response.status !== 409) {
+        throw new Error(`Failed to pause sandbox ${id}: ${res.response.status}`);
+      }
+    },
+    kill: (id: string) => Sandbox.kill(id),
+    getState: async (id: string) => {
+      const res = await createApiClient().api.GET('/sandboxes/{sandboxID}', {
+        params: { path: { sandboxID: id } },
+      });
+      if (res.response.status === 404) return null;
+      if (!res.data) {
+        throw new Error(`Failed to get sandbox ${id}: ${res.response.status}`);
+      }
+      return res.data.state;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type {
+  Desktop,
+  DesktopCommandResult,
+  DesktopCreateOptions,
+  DesktopProvider,
+} from '../types';
+
+/**
+ * 1x1 grey PNG used when no screenshots are recorded
+ */
+const BLANK_SCREENSHOT = Uint8Array.from(
+  Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    'base64',
+  ),
+);
+
+/**
+ * A single recorded call made against a fake desktop
+ */
+export interface FakeDesktopCall {
+  desktopId: string;
+  method: string;
+  args: unknown[];
+  timestamp: number;
+}
+
+/**
+ * Fake desktop configuration
+ */
+export interface FakeDesktopOptions {
+  /** Screenshots returned in order; the last one repeats once exhausted */
+  screenshots?: Uint8Array[];
+  /** Scripted command handler, defaults to empty successful output */
+  runCommand?: (command: string) => DesktopCommandResult | Promise<DesktopCommandResult>;
+  streamUrl?: string;
+}
+
+/**
+ * In-memory provider that records every call for assertions
+ */
+export interface FakeDesktopProvider extends DesktopProvider {
+  readonly calls: FakeDesktopCall[];
+  reset(): void;
+}
+
+/**
+ * Load pre-recorded PNG screenshots from a directory, sorted by file name
+ */
+export function loadScreenshots(dir: string): Uint8Array[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.png'))
+    .sort()
+    .map((file) => Uint8Array.from(readFileSync(join(dir, file))));
+}
+
+/**
+ * Create a fake desktop provider for deterministic runs without external services
+ */
+export function createFakeProvider(
+  options: FakeDesktopOptions = {},
+): FakeDesktopProvider {
+  const screenshots = options.screenshots?.length
+    ? options.screenshots
+    : [BLANK_SCREENSHOT];
+  const runCommand =
+    options.runCommand ??
+    (() => ({ stdout: '', stderr: '', exitCode: 0 }));
+  const streamUrl = options.streamUrl ?? 'about:blank';
+
+  const calls: FakeDesktopCall[] = [];
+  const desktops = new Map<string, Desktop>();
+  const paused = new Set<string>();
+  let nextId = 1;
+  let screenshotIndex = 0;
+
+  const toDesktop = (id: string): Desktop => {
+    const record = (method: string, ...args: unknown[]) => {
+      calls.push({ desktopId: id, method, args, timestamp: Date.now() });
+    };
+    const files = new Map<string, string>(); // In-memory filesystem
+
+    return {
+      id,
+      files: {
+        read: async (path) => {
+          record('files.read', path);
+          const content = files.get(path);
+          if (content === undefined) {
+            throw new Error(`File not found: ${path}`);
+          }
+          return content;
+        },
+        write: async (path, content) => {
+          record('files.write', path, content);
+          files.set(path, content);
+        },
+      },
+      commands: {
+        run: async (command, opts) => {
+          record('commands.run', command, opts);
+          const result = await runCommand(command);
+          // Canned output arrives in one chunk
+          if (result.stdout) opts?.onStdout?.(result.stdout);
+          if (result.stderr) opts?.onStderr?.(result.stderr);
+          return result;
+        },
+      },
+      screenshot: async () => {
+        record('screenshot');
+        const image = screenshots[Math.min(screenshotIndex, screenshots.length - 1)];
+        screenshotIndex++;
+        return image;
+      },
+      moveMouse: async (x, y) => record('moveMouse', x, y),
+      click: async (button = 'left', clicks = 1) => record('click', button, clicks),
+      mouseDown: async (button = 'left') => record('mouseDown', button),
+      mouseUp: async (button = 'left') => record('mouseUp', button),
+      getCursorPosition: async () => {
+        record('getCursorPosition');
+        return [0, 0];
+      },
+      write: async (text) => record('write', text),
+      press: async (key) => record('press', key),
+      keyDown: async (keys) => record('keyDown', keys),
+      keyUp: async (keys) => record('keyUp', keys),
+      scroll: async (direction, amount) => record('scroll', direction, amount),
+      drag: async (from, to) => record('drag', from, to),
+      getStreamUrl: async () => streamUrl,
+      keepAlive: async (timeoutMs) => record('keepAlive', timeoutMs),
+    };
+  };
+
+  return {
+    name: 'fake',
+    calls,
+    reset: () => {
+      calls.length = 0;
+      desktops.clear();
+      paused.clear();
+      nextId = 1;
+      screenshotIndex = 0;
+    },
+    create: async (opts: DesktopCreateOptions) => {
+      const id = `fake-${nextId++}`;
+      calls.push({ desktopId: id, method: 'create', args: [opts], timestamp: Date.now() });
+      const desktop = toDesktop(id);
+      desktops.set(id, desktop);
+      return desktop;
+    },
+    connect: async (id: string) => {
+      const desktop = desktops.get(id);
+      if (!desktop) {
+        throw new Error(`Fake desktop ${id} not found`);
+      }
+      paused.delete(id);
+      return desktop;
+    },
+    pause: async (id: string) => {
+      if (!desktops.has(id)) {
+        throw new Error(`Fake desktop ${id} not found`);
+      }
+      calls.push({ desktopId: id, method: 'pause', args: [], timestamp: Date.now() });
+      paused.add(id);
+    },
+    kill: async (id: string) => {
+      calls.push({ desktopId: id, method: 'kill', args: [], timestamp: Date.now() });
+      paused.delete(id);
+      return desktops.delete(id);
+    },
+    getState: async (id: string) => {
+      if (!desktops.has(id)) return null;
+      return paused.has(id) ? 'paused' : 'running';
+    },
+  };
+}
+
+/**
+ * Build a fake provider from FAKE_DESKTOP_SCREENSHOT_DIR, if set
+ */
+export function createFakeProviderFromEnv(): FakeDesktopProvider {
+  const dir = process.env.FAKE_DESKTOP_SCREENSHOT_DIR;
+  return createFakeProvider({
+    screenshots: dir ? loadScreenshots(dir) : undefined,
+  });
+}
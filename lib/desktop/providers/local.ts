@@ -0,0 +1,402 @@
+import { execFile, spawn, type ChildProcess } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type {
+  Desktop,
+  DesktopCommandResult,
+  DesktopCreateOptions,
+  DesktopProvider,
+  MouseButton,
+  ScrollDirection,
+} from '../types';
+
+/**
+ * Local desktop configuration, read from the environment
+ */
+interface LocalDesktopConfig {
+  displayBase: number;
+  vncPortBase: number;
+  noVncPortBase: number;
+  noVncWebDir: string;
+  host: string;
+  windowManager: string | null;
+}
+
+function readConfig(): LocalDesktopConfig {
+  return {
+    displayBase: Number(process.env.LOCAL_DESKTOP_DISPLAY_BASE) || 99,
+    vncPortBase: Number(process.env.LOCAL_DESKTOP_VNC_PORT_BASE) || 5900,
+    noVncPortBase: Number(process.env.LOCAL_DESKTOP_NOVNC_PORT_BASE) || 6080,
+    noVncWebDir: process.env.LOCAL_DESKTOP_NOVNC_WEB || '/usr/share/novnc',
+    host: process.env.LOCAL_DESKTOP_HOST || 'localhost',
+    windowManager: process.env.LOCAL_DESKTOP_WM || null,
+  };
+}
+
+/**
+ * Processes backing a single local desktop
+ */
+interface LocalDesktopProcesses {
+  xvfb: ChildProcess;
+  vnc: ChildProcess;
+  websockify: ChildProcess;
+  windowManager: ChildProcess | null;
+  paused: boolean;
+}
+
+/**
+ * xdotool button numbers
+ */
+const BUTTONS: Record<MouseButton, string> = {
+  left: '1',
+  middle: '2',
+  right: '3',
+};
+
+/**
+ * xdotool wheel buttons by scroll direction
+ */
+const SCROLL_BUTTONS: Record<ScrollDirection, string> = {
+  up: '4',
+  down: '5',
+  left: '6',
+  right: '7',
+};
+
+const desktopId = (display: number) => `local-${display}`;
+
+function parseDisplay(id: string): number | null {
+  const match = /^local-(\d+)$/.exec(id);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Run a binary to completion, resolving for any exit code
+ */
+function run(
+  file: string,
+  args: string[],
+  opts: {
+    env?: NodeJS.ProcessEnv;
+    timeoutMs?: number;
+    onStdout?: (data: string) => void;
+    onStderr?: (data: string) => void;
+    signal?: AbortSignal; // Kills the child's whole process group, see commands.run
+  } = {},
+): Promise<{
+  stdout: Buffer;
+  stderr: string;
+  exitCode: number;
+  error?: string;
+  timedOut?: boolean;
+  aborted?: boolean;
+}> {
+  return new Promise((resolve) => {
+    let aborted = false;
+    let timedOut = false;
+    // Kill the whole group, so nothing the command started outlives it
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    };
+    const onAbort = () => {
+      aborted = true;
+      killGroup();
+    };
+    const child = execFile(
+      file,
+      args,
+      {
+        env: opts.env,
+        encoding: 'buffer',
+        maxBuffer: 64 * 1024 * 1024,
+      },
+      (error, stdout, stderr) => {
+        clearTimeout(timer);
+        opts.signal?.removeEventListener('abort', onAbort);
+        const code = aborted
+          ? 137
+          : timedOut
+            ? 124
+            : error && typeof error.code === 'number'
+              ? error.code
+              : error
+                ? 1
+                : 0;
+        resolve({
+          stdout,
+          stderr: stderr.toString(),
+          exitCode: code,
+          error: aborted ? 'Command aborted' : error?.message,
+          timedOut: timedOut || undefined,
+          aborted: aborted || undefined,
+        });
+      },
+    );
+    // Not execFile's own timeout, which only sends SIGTERM to the child itself
+    const timer = opts.timeoutMs
+      ? setTimeout(() => {
+          if (child.exitCode !== null || child.signalCode !== null) return;
+          timedOut = !aborted;
+          killGroup();
+        }, opts.timeoutMs)
+      : undefined;
+    if (opts.signal?.aborted) onAbort();
+    else opts.signal?.addEventListener('abort', onAbort, { once: true });
+    // execFile still buffers everything for the result; these only forward chunks
+    if (opts.onStdout) child.stdout?.on('data', (chunk: Buffer) => opts.onStdout?.(chunk.toString()));
+    if (opts.onStderr) child.stderr?.on('data', (chunk: Buffer) => opts.onStderr?.(chunk.toString()));
+  });
+}
+
+/**
+ * Start a long-lived helper process, logging spawn failures instead of crashing
+ */
+function start(file: string, args: string[], env: NodeJS.ProcessEnv): ChildProcess {
+  const child = spawn(file, args, { env, stdio: 'ignore' });
+  child.on('error', (error) => {
+    console.error(`Failed to start ${file}:`, error);
+  });
+  return child;
+}
+
+/**
+ * Send a signal to every process backing a desktop
+ */
+function signalAll(processes: LocalDesktopProcesses, signal: NodeJS.Signals) {
+  const { xvfb, vnc, websockify, windowManager } = processes;
+  for (const child of [xvfb, vnc, websockify, windowManager]) {
+    child?.kill(signal);
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Local X11 desktop provider
+ * Drives Xvfb with xdotool and streams it through x11vnc + websockify/noVNC.
+ * Requires Xvfb, xdotool, x11vnc, websockify, ImageMagick and noVNC on the host.
+ */
+export function createLocalProvider(): DesktopProvider {
+  const config = readConfig();
+  const running = new Map<number, LocalDesktopProcesses>();
+  // Displays picked by creates that haven't started yet, so concurrent creates pick different ones
+  const reserved = new Set<number>();
+
+  const displayEnv = (display: number): NodeJS.ProcessEnv => ({
+    ...process.env,
+    DISPLAY: `:${display}`,
+  });
+
+  const isDisplayUp = async (display: number) => {
+    const result = await run('xdpyinfo', [], { env: displayEnv(display), timeoutMs: 2000 });
+    return result.exitCode === 0;
+  };
+
+  const nextFreeDisplay = () => {
+    let display = config.displayBase;
+    while (
+      running.has(display) ||
+      reserved.has(display) ||
+      existsSync(`/tmp/.X${display}-lock`)
+    ) {
+      display++;
+    }
+    return display;
+  };
+
+  const xdotool = async (display: number, args: string[]) => {
+    const result = await run('xdotool', args, { env: displayEnv(display) });
+    if (result.exitCode !== 0) {
+      throw new Error(`xdotool ${args[0]} failed: ${result.stderr || result.error}`);
+    }
+  };
+
+  const toDesktop = (display: number): Desktop => {
+    const offset = display - config.displayBase;
+    const streamUrl =
+      `http://${config.host}:${config.noVncPortBase + offset}/vnc.html` +
+      '?autoconnect=true&resize=scale';
+
+    return {
+      id: desktopId(display),
+      commands: {
+        run: async (command, opts) => {
+          // setsid makes bash a process group leader, so a timeout or abort can kill everything it started
+          const result = await run('setsid', ['bash', '-lc', command], {
+            env: displayEnv(display),
+            timeoutMs: opts?.timeoutMs,
+            onStdout: opts?.onStdout,
+            onStderr: opts?.onStderr,
+            signal: opts?.signal,
+          });
+          return {
+            stdout: result.stdout.toString(),
+            stderr: result.stderr,
+            exitCode: result.exitCode,
+            error: result.exitCode !== 0 ? result.error : undefined,
+            timedOut: result.timedOut,
+            aborted: result.aborted,
+          } satisfies DesktopCommandResult;
+        },
+      },
+      // The desktop shares the host's filesystem
+      files: {
+        read: (path) => readFile(path, 'utf8'),
+        write: async (path, content) => {
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, content);
+        },
+      },
+      screenshot: async () => {
+        const result = await run('import', ['-window', 'root', 'png:-'], {
+          env: displayEnv(display),
+        });
+        if (result.exitCode !== 0) {
+          throw new Error(`Screenshot failed: ${result.stderr || result.error}`);
+        }
+        return new Uint8Array(result.stdout);
+      },
+      moveMouse: (x, y) => xdotool(display, ['mousemove', '--sync', String(x), String(y)]),
+      click: (button: MouseButton = 'left', clicks = 1) =>
+        xdotool(display, ['click', '--repeat', String(clicks), BUTTONS[button]]),
+      mouseDown: (button: MouseButton = 'left') =>
+        xdotool(display, ['mousedown', BUTTONS[button]]),
+      mouseUp: (button: MouseButton = 'left') =>
+        xdotool(display, ['mouseup', BUTTONS[button]]),
+      getCursorPosition: async () => {
+        const result = await run('xdotool', ['getmouselocation', '--shell'], {
+          env: displayEnv(display),
+        });
+        const output = result.stdout.toString();
+        const x = /^X=(\d+)$/m.exec(output);
+        const y = /^Y=(\d+)$/m.exec(output);
+        if (result.exitCode !== 0 || !x || !y) {
+          throw new Error(`Failed to read cursor position: ${result.stderr || output}`);
+        }
+        return [Number(x[1]), Number(y[1])];
+      },
+      write: (text) => xdotool(display, ['type', '--delay', '12', '--', text]),
+      press: (key) => {
+        const chord = (Array.isArray(key) ? key : [key]).join('+');
+        return xdotool(display, ['key', '--', chord]);
+      },
+      keyDown: (keys) => xdotool(display, ['keydown', '--', keys.join('+')]),
+      keyUp: (keys) => xdotool(display, ['keyup', '--', keys.join('+')]),
+      scroll: (direction, amount) =>
+        xdotool(display, ['click', '--repeat', String(amount), SCROLL_BUTTONS[direction]]),
+      drag: async ([x1, y1], [x2, y2]) => {
+        await xdotool(display, ['mousemove', '--sync', String(x1), String(y1)]);
+        await xdotool(display, ['mousedown', BUTTONS.left]);
+        await xdotool(display, ['mousemove', '--sync', String(x2), String(y2)]);
+        await xdotool(display, ['mouseup', BUTTONS.left]);
+      },
+      getStreamUrl: async () => streamUrl,
+      // Local desktops don't expire
+      keepAlive: async () => {},
+    };
+  };
+
+  /**
+   * Start Xvfb and the VNC stream on a display the caller has reserved
+   */
+  const startDesktop = async (display: number, [width, height]: [number, number]) => {
+    const offset = display - config.displayBase;
+    const env = displayEnv(display);
+
+    const xvfb = start(
+      'Xvfb',
+      [`:${display}`, '-screen', '0', `${width}x${height}x24`, '-nolisten', 'tcp'],
+      env,
+    );
+
+    // Wait up to 5 seconds for the X server to accept connections
+    let ready = false;
+    for (let attempt = 0; attempt < 25 && !ready; attempt++) {
+      await wait(200);
+      ready = await isDisplayUp(display);
+    }
+    if (!ready) {
+      xvfb.kill();
+      throw new Error(`Failed to start Xvfb on display :${display}`);
+    }
+
+    const windowManager = config.windowManager
+      ? start('bash', ['-lc', config.windowManager], env)
+      : null;
+    const vnc = start(
+      'x11vnc',
+      ['-display', `:${display}`, '-rfbport', String(config.vncPortBase + offset), '-forever', '-shared', '-nopw', '-quiet'],
+      env,
+    );
+    const websockify = start(
+      'websockify',
+      ['--web', config.noVncWebDir, String(config.noVncPortBase + offset), `localhost:${config.vncPortBase + offset}`],
+      env,
+    );
+
+    running.set(display, { xvfb, vnc, websockify, windowManager, paused: false });
+    xvfb.once('exit', () => {
+      running.delete(display);
+      vnc.kill();
+      websockify.kill();
+      windowManager?.kill();
+    });
+
+    return toDesktop(display);
+  };
+
+  return {
+    name: 'local',
+    create: async ({ resolution }: DesktopCreateOptions) => {
+      const display = nextFreeDisplay();
+      reserved.add(display);
+      try {
+        return await startDesktop(display, resolution);
+      } finally {
+        reserved.delete(display);
+      }
+    },
+    connect: async (id: string) => {
+      const display = parseDisplay(id);
+      const processes = display !== null ? running.get(display) : undefined;
+      if (display !== null && processes?.paused) {
+        signalAll(processes, 'SIGCONT');
+        processes.paused = false;
+      }
+      if (display === null || !(await isDisplayUp(display))) {
+        throw new Error(`Local desktop ${id} not found`);
+      }
+      return toDesktop(display);
+    },
+    pause: async (id: string) => {
+      const display = parseDisplay(id);
+      const processes = display !== null ? running.get(display) : undefined;
+      if (!processes) {
+        throw new Error(`Local desktop ${id} not found`);
+      }
+      signalAll(processes, 'SIGSTOP');
+      processes.paused = true;
+    },
+    kill: async (id: string) => {
+      const display = parseDisplay(id);
+      const processes = display !== null ? running.get(display) : undefined;
+      if (!processes) return false;
+      // Stopped processes must be continued to handle SIGTERM
+      if (processes.paused) signalAll(processes, 'SIGCONT');
+      signalAll(processes, 'SIGTERM');
+      return true;
+    },
+    getState: async (id: string) => {
+      const display = parseDisplay(id);
+      if (display === null) return null;
+      const processes = running.get(display);
+      if (processes?.paused) return 'paused';
+      return (await isDisplayUp(display)) ? 'running' : null;
+    },
+  };
+}
@@ -0,0 +1,322 @@
+import sharp from 'sharp';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeProvider } from './providers/fake';
+import {
+  formatRedactionNote,
+  getRedactionPolicy,
+  redactScreenshot,
+  type RedactionPolicy,
+} from './redaction';
+import type { Desktop, DesktopCommandResult } from './types';
+
+const WIDTH = 300;
+const HEIGHT = 120;
+
+const ok = (stdout: string): DesktopCommandResult => ({ stdout, stderr: '', exitCode: 0 });
+
+/**
+ * Screenshot of 1px black and white columns, so any blur turns pixels grey
+ */
+const createStripes = async () => {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = (i % WIDTH) % 2 === 0 ? 255 : 0;
+  return new Uint8Array(
+    await sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels: 1 } }).png().toBuffer(),
+  );
+};
+
+/**
+ * Brightness of one pixel of a PNG
+ */
+const pixel = async (image: Uint8Array, x: number, y: number) => {
+  const { data, info } = await sharp(image).greyscale().raw().toBuffer({ resolveWithObject: true });
+  return data[(y * info.width + x) * info.channels];
+};
+
+/**
+ * A word as tesseract's TSV prints it (level 5)
+ */
+interface Word {
+  text: string;
+  left: number;
+  top?: number;
+  width?: number;
+}
+
+const toTsv = (words: Word[]) =>
+  [
+    'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext',
+    // Sparse OCR puts most words in blocks of their own
+    ...words.map(({ text, left, top = 40, width = 50 }, i) =>
+      ['5', '1', String(i + 1), '1', '1', '1', left, top, width, 20, '96', text].join('\t'),
+    ),
+  ].join('\n');
+
+const policy = (overrides: Partial<RedactionPolicy>): RedactionPolicy => ({
+  regions: [],
+  windowTitles: [],
+  ocr: [],
+  invalid: false,
+  ...overrides,
+});
+
+/**
+ * What the desktop's tesseract and xdotool report
+ */
+let ocrWords: Word[] = [];
+let windowGeometry = '';
+let missing: string | null = null;
+
+const provider = createFakeProvider({
+  runCommand: (command) => {
+    const tool = command.includes('tesseract') ? 'tesseract' : 'xdotool';
+    if (missing === tool) {
+      return { stdout: '', stderr: `${tool} is not installed\n`, exitCode: 127 };
+    }
+    return ok(tool === 'tesseract' ? toTsv(ocrWords) : windowGeometry);
+  },
+});
+
+let desktop: Desktop;
+let screen: Uint8Array;
+
+beforeAll(async () => {
+  screen = await createStripes();
+});
+
+beforeEach(async () => {
+  provider.reset();
+  desktop = await provider.create({ resolution: [WIDTH, HEIGHT] });
+  ocrWords = [];
+  windowGeometry = '';
+  missing = null;
+});
+
+describe('card detection', () => {
+  const cardPolicy = policy({ ocr: ['card'] });
+
+  it.each([
+    ['a spaced Visa number', ['4111', '1111', '1111', '1111']],
+    ['a Mastercard number in one word', ['5555555555554444']],
+    ['a dashed Amex number', ['3782-822463-10005']],
+  ])('blurs %s', async (_, texts) => {
+    ocrWords = texts.map((text, i) => ({ text, left: 20 + i * 60 }));
+
+    const { redactions } = await redactScreenshot(desktop, screen, cardPolicy);
+
+    expect(redactions).toEqual({ card: 1 });
+  });
+
+  it.each([
+    ['a number failing the Luhn check', ['4111', '1111', '1111', '1112']],
+    ['a phone number', ['+1', '555', '123', '4567']],
+    ['an order number too short for a card', ['ORDER', '12345678901']],
+    ['a number longer than any card', ['41111111111111111111']],
+  ])('leaves %s alone', async (_, texts) => {
+    ocrWords = texts.map((text, i) => ({ text, left: 20 + i * 60 }));
+
+    const result = await redactScreenshot(desktop, screen, cardPolicy);
+
+    expect(result).toEqual({ image: screen });
+  });
+});
+
+describe('OCR line grouping', () => {
+  const cardPolicy = policy({ ocr: ['card'] });
+
+  it('joins words listed out of order into one line', async () => {
+    ocrWords = [
+      { text: '1111', left: 200 },
+      { text: '4111', left: 20 },
+      { text: '1111', left: 140, top: 43 },
+      { text: '1111', left: 80, top: 38 },
+    ];
+
+    const { redactions } = await redactScreenshot(desktop, screen, cardPolicy);
+
+    expect(redactions).toEqual({ card: 1 });
+  });
+
+  it.each([
+    [
+      'on different lines',
+      [
+        { text: '4111', left: 20 },
+        { text: '1111', left: 80 },
+        { text: '1111', left: 20, top: 80 },
+        { text: '1111', left: 80, top: 80 },
+      ],
+    ],
+    [
+      'far apart on the same line',
+      [
+        { text: '4111', left: 0 },
+        { text: '1111', left: 55 },
+        { text: '1111', left: 190 },
+        { text: '1111', left: 245 },
+      ],
+    ],
+  ])("doesn't join words %s", async (_, words) => {
+    ocrWords = words;
+
+    const result = await redactScreenshot(desktop, screen, cardPolicy);
+
+    expect(result.redactions).toBeUndefined();
+  });
+});
+
+describe('OCR patterns', () => {
+  it('counts every match of every pattern', async () => {
+    ocrWords = [
+      { text: 'Mail', left: 0 },
+      { text: 'ada@example.com', left: 55, width: 120 },
+      { text: 'key', left: 0, top: 80 },
+      { text: 'sk-abcdefghijklmnopqrstu', left: 55, top: 80, width: 150 },
+      { text: 'grace@example.org', left: 210, top: 80, width: 80 },
+    ];
+
+    const { redactions } = await redactScreenshot(
+      desktop,
+      screen,
+      policy({ ocr: ['email', 'api-key', 'card'] }),
+    );
+
+    expect(redactions).toEqual({ email: 2, 'api-key': 1 });
+  });
+
+  it('matches custom patterns across words', async () => {
+    ocrWords = [
+      { text: 'Case', left: 20 },
+      { text: 'ID', left: 80 },
+      { text: '7731', left: 140 },
+    ];
+
+    const { redactions } = await redactScreenshot(
+      desktop,
+      screen,
+      policy({ ocr: [{ pattern: 'ID \\d+' }] }),
+    );
+
+    expect(redactions).toEqual({ 'pattern:ID \\d+': 1 });
+  });
+});
+
+describe('blurring', () => {
+  it('blurs the words of a match and nothing else', async () => {
+    // The card spans x 20-250 and y 40-60
+    ocrWords = ['4111', '1111', '1111', '1111'].map((text, i) => ({ text, left: 20 + i * 60 }));
+
+    const { image } = await redactScreenshot(desktop, screen, policy({ ocr: ['card'] }));
+
+    for (const [x, y] of [[30, 45], [100, 50], [240, 58]]) {
+      expect(await pixel(image, x, y)).toBeGreaterThan(40);
+      expect(await pixel(image, x, y)).toBeLessThan(215);
+    }
+    for (const [x, y] of [[100, 100], [280, 50], [10, 20]]) {
+      expect(await pixel(image, x, y)).toBe(await pixel(screen, x, y));
+    }
+  });
+
+  it('blurs regions, whichever corners they are given by', async () => {
+    const { image, redactions } = await redactScreenshot(
+      desktop,
+      screen,
+      policy({ regions: [[150, 100, 100, 60]] }),
+    );
+
+    expect(redactions).toEqual({ region: 1 });
+    expect(await pixel(image, 124, 80)).toBeGreaterThan(40);
+    expect(await pixel(image, 124, 80)).toBeLessThan(215);
+    expect(await pixel(image, 50, 80)).toBe(await pixel(screen, 50, 80));
+    // OCR and window lookups only run when the policy asks for them
+    expect(provider.calls.map((call) => call.method)).not.toContain('commands.run');
+  });
+
+  it('blurs each matching window once', async () => {
+    // Listed twice for matching two titles; zero-size windows are skipped
+    windowGeometry = [
+      'WINDOW=42\nX=200\nY=10\nWIDTH=80\nHEIGHT=40',
+      'WINDOW=42\nX=200\nY=10\nWIDTH=80\nHEIGHT=40',
+      'WINDOW=7\nX=0\nY=0\nWIDTH=0\nHEIGHT=0',
+    ].join('\n');
+
+    const { image, redactions } = await redactScreenshot(
+      desktop,
+      screen,
+      policy({ windowTitles: ['Admin', 'Billing'] }),
+    );
+
+    expect(redactions).toEqual({ window: 1 });
+    expect(await pixel(image, 240, 30)).toBeGreaterThan(40);
+    expect(await pixel(image, 240, 30)).toBeLessThan(215);
+    expect(await pixel(image, 100, 30)).toBe(await pixel(screen, 100, 30));
+  });
+
+  it.each([
+    ['tesseract', policy({ ocr: ['email'] })],
+    ['xdotool', policy({ windowTitles: ['Admin'] })],
+  ])('withholds the screenshot when %s is missing', async (tool, failing) => {
+    missing = tool;
+
+    await expect(redactScreenshot(desktop, screen, failing)).rejects.toThrow(
+      `Screenshot withheld: redaction failed (${tool} is not installed)`,
+    );
+  });
+});
+
+describe('getRedactionPolicy', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('parses regions, window titles and OCR patterns', () => {
+    vi.stubEnv(
+      'SCREENSHOT_REDACTION',
+      JSON.stringify({
+        regions: [[0, 0, 400, 60]],
+        windowTitles: ['Admin'],
+        ocr: ['email', { pattern: 'ID \\d+' }],
+      }),
+    );
+
+    expect(getRedactionPolicy()).toEqual({
+      regions: [[0, 0, 400, 60]],
+      windowTitles: ['Admin'],
+      ocr: ['email', { pattern: 'ID \\d+' }],
+      invalid: false,
+    });
+  });
+
+  it('turns on every built-in pattern for `"ocr": true`', () => {
+    vi.stubEnv('SCREENSHOT_REDACTION', '{"ocr": true}');
+
+    expect(getRedactionPolicy().ocr).toEqual(['email', 'card', 'api-key']);
+  });
+
+  it.each([
+    ['broken JSON', '{"regions": '],
+    ['an unknown OCR pattern', '{"ocr": ["passport"]}'],
+    ['a bad regular expression', '{"ocr": [{"pattern": "("}]}'],
+    ['a region with three corners', '{"regions": [[0, 0, 10]]}'],
+    ['a window title that is not a string', '{"windowTitles": [1]}'],
+  ])('withholds every screenshot for %s', async (_, source) => {
+    vi.stubEnv('SCREENSHOT_REDACTION', source);
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const invalid = getRedactionPolicy();
+
+    expect(invalid).toMatchObject({ invalid: true });
+    await expect(redactScreenshot(desktop, screen, invalid)).rejects.toThrow(
+      'Screenshot withheld: SCREENSHOT_REDACTION is invalid',
+    );
+  });
+});
+
+describe('formatRedactionNote', () => {
+  it('lists what was blurred', () => {
+    expect(formatRedactionNote({ email: 2, window: 1 })).toBe(
+      "Parts of the screen are blurred for privacy (2 email, 1 window). Don't try to read or reveal what is under the blur.",
+    );
+    expect(formatRedactionNote(undefined)).toBe('');
+  });
+});
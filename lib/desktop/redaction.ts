@@ -0,0 +1,349 @@
+import sharp from 'sharp';
+import type { ScreenshotRedactions } from '@/lib/types/events';
+import type { ScreenRegion } from './scaling';
+import type { Desktop } from './types';
+
+const WORK_DIR = '/tmp/.agent-redaction';
+const LOOKUP_TIMEOUT_MS = 30000;
+const AREA_PADDING = 4; // OCR and window boxes are tight; blur a little around them
+const BLUR_SIGMA = 24; // Enough to flatten text into its background color
+
+/**
+ * Text to find with OCR: a built-in pattern name or a regular expression
+ */
+export type OcrPattern = string | { pattern: string };
+
+/**
+ * What to blur in screenshots, read from SCREENSHOT_REDACTION
+ * Regions are in screen pixels, so they hold for any model resolution.
+ */
+export interface RedactionPolicy {
+  regions: ScreenRegion[];
+  windowTitles: string[]; // Regular expressions, matched by xdotool
+  ocr: OcrPattern[];
+  invalid: boolean; // The policy failed to parse, so screenshots are withheld
+}
+
+/**
+ * Rectangle of the screen to blur, and what it matched
+ */
+interface RedactionArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  reason: string;
+}
+
+/**
+ * Word found by tesseract, in screen pixels
+ */
+interface OcrWord {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+/**
+ * Luhn checksum, so order numbers and phone numbers aren't taken for cards
+ */
+const isLuhnValid = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Built-in OCR patterns; `valid` filters out lookalikes
+ */
+const BUILTIN_PATTERNS: Record<string, { pattern: RegExp; valid?: (match: string) => boolean }> = {
+  email: { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  card: {
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    valid: (match) => isLuhnValid(match.replace(/\D/g, '')),
+  },
+  'api-key': {
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{16,}|[sr]k_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,}|xox[abpr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b/g,
+  },
+};
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const patternName = (pattern: OcrPattern) =>
+  typeof pattern === 'string' ? pattern : `pattern:${pattern.pattern}`;
+
+const compilePattern = (pattern: OcrPattern) =>
+  typeof pattern === 'string' ? BUILTIN_PATTERNS[pattern] : { pattern: new RegExp(pattern.pattern, 'g') };
+
+/**
+ * Check that an OCR pattern is well-formed, so a typo can't silently disable it
+ */
+function validatePattern(pattern: OcrPattern): OcrPattern {
+  if (typeof pattern === 'string') {
+    if (!(pattern in BUILTIN_PATTERNS)) throw new Error(`Unknown OCR pattern ${pattern}`);
+  } else if (typeof pattern?.pattern === 'string') {
+    new RegExp(pattern.pattern); // Throws on bad syntax
+  } else {
+    throw new Error(`Invalid OCR pattern ${JSON.stringify(pattern)}`);
+  }
+  return pattern;
+}
+
+function validateRegion(region: unknown): ScreenRegion {
+  if (!Array.isArray(region) || region.length !== 4 || !region.every(Number.isFinite)) {
+    throw new Error(`Invalid region ${JSON.stringify(region)}`);
+  }
+  return region as ScreenRegion;
+}
+
+/**
+ * Parse SCREENSHOT_REDACTION, e.g. `{"regions": [[0, 0, 400, 60]], "windowTitles": ["Admin"], "ocr": ["email", "card"]}`
+ * `"ocr": true` turns on every built-in pattern. A broken policy withholds every screenshot.
+ */
+export function getRedactionPolicy(): RedactionPolicy {
+  const source = process.env.SCREENSHOT_REDACTION?.trim();
+  if (!source) return { regions: [], windowTitles: [], ocr: [], invalid: false };
+
+  try {
+    const raw = JSON.parse(source) as {
+      regions?: unknown[];
+      windowTitles?: string[];
+      ocr?: boolean | OcrPattern[];
+    };
+    const titles = raw.windowTitles ?? [];
+    if (!titles.every((title) => typeof title === 'string')) {
+      throw new Error('windowTitles must be strings');
+    }
+    const ocr = raw.ocr === true ? Object.keys(BUILTIN_PATTERNS) : raw.ocr || [];
+    return {
+      regions: (raw.regions ?? []).map(validateRegion),
+      windowTitles: titles,
+      ocr: ocr.map(validatePattern),
+      invalid: false,
+    };
+  } catch (error) {
+    console.error('Failed to parse SCREENSHOT_REDACTION:', error);
+    return { regions: [], windowTitles: [], ocr: [], invalid: true };
+  }
+}
+
+/**
+ * Where visible windows with matching titles are, in screen pixels
+ */
+async function findWindows(
+  desktop: Desktop,
+  titles: string[],
+  signal?: AbortSignal,
+): Promise<RedactionArea[]> {
+  const script = [
+    'command -v xdotool >/dev/null || { echo "xdotool is not installed" >&2; exit 127; }',
+    `for title in ${titles.map(shellQuote).join(' ')}; do`,
+    '  for id in $(xdotool search --onlyvisible --name "$title"); do',
+    '    xdotool getwindowgeometry --shell "$id"',
+    '  done',
+    'done',
+    'exit 0',
+  ].join('\n');
+  const result = await desktop.commands.run(script, { timeoutMs: LOOKUP_TIMEOUT_MS, signal });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || result.error || 'Failed to look up windows');
+  }
+
+  // Blocks of WINDOW=, X=, Y=, WIDTH=, HEIGHT= lines; a window matching two titles is listed twice
+  const windows = new Map<string, Record<string, number>>();
+  let current: Record<string, number> = {};
+  for (const line of result.stdout.split('\n')) {
+    const [key, value] = line.trim().split('=');
+    if (key === 'WINDOW') windows.set(value, (current = {}));
+    else if (key && value) current[key] = Number(value);
+  }
+  return [...windows.values()]
+    .filter((geometry) => geometry.WIDTH > 0 && geometry.HEIGHT > 0)
+    .map((geometry) => ({
+      left: geometry.X,
+      top: geometry.Y,
+      width: geometry.WIDTH,
+      height: geometry.HEIGHT,
+      reason: 'window',
+    }));
+}
+
+/**
+ * Read the words on a screenshot with tesseract on the desktop, so the screen never leaves it for OCR
+ */
+async function readWords(desktop: Desktop, image: Uint8Array, signal?: AbortSignal): Promise<OcrWord[]> {
+  // File access is text-only, so the image goes over as base64
+  await desktop.files.write(`${WORK_DIR}/screen.b64`, Buffer.from(image).toString('base64'));
+  const script = [
+    'command -v tesseract >/dev/null || { echo "tesseract is not installed" >&2; exit 127; }',
+    `cd ${WORK_DIR}`,
+    'base64 -d screen.b64 > screen.png && tesseract screen.png - --psm 11 tsv 2>/dev/null',
+    'status=$?',
+    'rm -f screen.b64 screen.png',
+    'exit $status',
+  ].join('\n');
+  const result = await desktop.commands.run(script, { timeoutMs: LOOKUP_TIMEOUT_MS, signal });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim() || result.error || 'OCR failed');
+  }
+
+  // level page block par line word left top width height conf text; level 5 rows are words
+  return result.stdout
+    .split('\n')
+    .slice(1)
+    .map((row) => row.split('\t'))
+    .filter((columns) => columns[0] === '5' && columns[11]?.trim())
+    .map((columns) => ({
+      left: Number(columns[6]),
+      top: Number(columns[7]),
+      width: Number(columns[8]),
+      height: Number(columns[9]),
+      text: columns[11].trim(),
+    }));
+}
+
+/**
+ * Group words into lines by position, so matches can span words like a spaced card number
+ * Sparse OCR splits a screen into many small blocks, so tesseract's own line numbers don't help.
+ */
+function groupLines(words: OcrWord[]): OcrWord[][] {
+  const lines: OcrWord[][] = [];
+  for (const word of [...words].sort((a, b) => a.left - b.left)) {
+    const line = lines.find((candidate) => {
+      const last = candidate[candidate.length - 1];
+      const gap = word.left - (last.left + last.width);
+      const drift = Math.abs(word.top + word.height / 2 - (last.top + last.height / 2));
+      return gap >= -2 && gap < last.height * 1.5 && drift < last.height / 2;
+    });
+    if (line) line.push(word);
+    else lines.push([word]);
+  }
+  return lines;
+}
+
+/**
+ * Boxes of the words that make up each pattern match
+ */
+function findSensitiveText(words: OcrWord[], patterns: OcrPattern[]): RedactionArea[] {
+  const areas: RedactionArea[] = [];
+  for (const line of groupLines(words)) {
+    // Line text with each word's character range, to map matches back to words
+    let text = '';
+    const ranges = line.map((word) => {
+      if (text) text += ' ';
+      const start = text.length;
+      text += word.text;
+      return { word, start, end: text.length };
+    });
+
+    for (const pattern of patterns) {
+      const { pattern: regex, valid } = compilePattern(pattern);
+      for (const match of text.matchAll(regex)) {
+        if (!match[0] || (valid && !valid(match[0]))) continue;
+        const start = match.index;
+        const end = start + match[0].length;
+        const covered = ranges.filter((range) => range.start < end && range.end > start);
+        const left = Math.min(...covered.map(({ word }) => word.left));
+        const top = Math.min(...covered.map(({ word }) => word.top));
+        areas.push({
+          left,
+          top,
+          width: Math.max(...covered.map(({ word }) => word.left + word.width)) - left,
+          height: Math.max(...covered.map(({ word }) => word.top + word.height)) - top,
+          reason: patternName(pattern),
+        });
+      }
+    }
+  }
+  return areas;
+}
+
+/**
+ * Blur areas of a PNG, padded and clipped to the image
+ */
+async function blurAreas(image: Uint8Array, areas: RedactionArea[]): Promise<Uint8Array> {
+  const { width: imageWidth = 0, height: imageHeight = 0 } = await sharp(image).metadata();
+  const tiles = await Promise.all(
+    areas
+      .map((area) => {
+        const left = Math.max(Math.floor(area.left) - AREA_PADDING, 0);
+        const top = Math.max(Math.floor(area.top) - AREA_PADDING, 0);
+        const right = Math.min(Math.ceil(area.left + area.width) + AREA_PADDING, imageWidth);
+        const bottom = Math.min(Math.ceil(area.top + area.height) + AREA_PADDING, imageHeight);
+        return { left, top, width: right - left, height: bottom - top };
+      })
+      .filter(({ width, height }) => width > 0 && height > 0)
+      .map(async (box) => ({
+        input: await sharp(image).extract(box).blur(BLUR_SIGMA).toBuffer(),
+        left: box.left,
+        top: box.top,
+      })),
+  );
+  if (tiles.length === 0) return image;
+  return new Uint8Array(await sharp(image).composite(tiles).png().toBuffer());
+}
+
+/**
+ * Blur what the policy covers in a full-resolution PNG screenshot
+ * Runs before a screenshot is scaled, zoomed or returned. If a lookup fails the screenshot is
+ * withheld rather than returned unredacted.
+ */
+export async function redactScreenshot(
+  desktop: Desktop,
+  image: Uint8Array,
+  policy: RedactionPolicy,
+  signal?: AbortSignal,
+): Promise<{ image: Uint8Array; redactions?: ScreenshotRedactions }> {
+  if (policy.invalid) {
+    throw new Error('Screenshot withheld: SCREENSHOT_REDACTION is invalid');
+  }
+  if (policy.regions.length === 0 && policy.windowTitles.length === 0 && policy.ocr.length === 0) {
+    return { image };
+  }
+
+  let areas: RedactionArea[];
+  try {
+    const [windows, text] = await Promise.all([
+      policy.windowTitles.length > 0 ? findWindows(desktop, policy.windowTitles, signal) : [],
+      policy.ocr.length > 0
+        ? readWords(desktop, image, signal).then((words) => findSensitiveText(words, policy.ocr))
+        : [],
+    ]);
+    const regions = policy.regions.map(([x1, y1, x2, y2]) => ({
+      left: Math.min(x1, x2),
+      top: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+      reason: 'region',
+    }));
+    areas = [...regions, ...windows, ...text];
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw new Error(
+      `Screenshot withheld: redaction failed (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+  if (areas.length === 0) return { image };
+
+  const redactions: ScreenshotRedactions = {};
+  for (const { reason } of areas) redactions[reason] = (redactions[reason] ?? 0) + 1;
+  return { image: await blurAreas(image, areas), redactions };
+}
+
+/**
+ * Tell the model what was blurred, so it doesn't try to read it
+ */
+export function formatRedactionNote(redactions?: ScreenshotRedactions): string {
+  if (!redactions) return '';
+  const counts = Object.entries(redactions)
+    .map(([reason, count]) => `${count} ${reason}`)
+    .join(', ');
+  return `Parts of the screen are blurred for privacy (${counts}). Don't try to read or reveal what is under the blur.`;
+}
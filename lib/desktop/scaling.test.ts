@@ -0,0 +1,132 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { createCoordinateScaler, getModelResolution, type ScreenRegion } from './scaling';
+import { DEFAULT_RESOLUTION } from '@/lib/types/sessions';
+
+describe('getModelResolution', () => {
+  it.each([
+    [{ x: 1024, y: 768 }, { x: 1024, y: 768 }],
+    [{ x: 1280, y: 800 }, { x: 1280, y: 800 }],
+    [{ x: 1440, y: 900 }, { x: 1280, y: 800 }],
+    [{ x: 1920, y: 1080 }, { x: 1366, y: 768 }],
+    [{ x: 2560, y: 1600 }, { x: 1280, y: 800 }],
+    // Smaller than every target of its aspect ratio: kept as it is
+    [{ x: 800, y: 600 }, { x: 800, y: 600 }],
+    // No matching aspect ratio: fit inside the largest size
+    [{ x: 1000, y: 1000 }, { x: 800, y: 800 }],
+    [{ x: 2560, y: 1080 }, { x: 1280, y: 540 }],
+  ])('scales %j to %j', (screen, model) => {
+    expect(getModelResolution(screen)).toEqual(model);
+  });
+});
+
+describe('createCoordinateScaler', () => {
+  it('passes coordinates through at the default resolution', async () => {
+    const scaler = createCoordinateScaler(DEFAULT_RESOLUTION);
+    const image = new Uint8Array([1, 2, 3]);
+
+    expect(scaler.isScaled).toBe(false);
+    expect(scaler.toScreen([500, 300])).toEqual([500, 300]);
+    expect(scaler.toModel([500, 300])).toEqual([500, 300]);
+    expect(scaler.toScreen([1023, 767])).toEqual([1023, 767]);
+    expect(await scaler.scaleScreenshot(image)).toBe(image);
+  });
+
+  const fullHd = createCoordinateScaler({ x: 1920, y: 1080 });
+
+  it.each([
+    [[0, 0], [0, 0]],
+    [[683, 384], [960, 540]],
+    [[1365, 767], [1919, 1079]],
+    // Outside the screenshot: clamped to the edge pixels
+    [[1366, 768], [1919, 1079]],
+    [[-5, -5], [0, 0]],
+  ] as [[number, number], [number, number]][])('maps model %j to screen %j', (model, screen) => {
+    expect(fullHd.toScreen(model)).toEqual(screen);
+  });
+
+  it.each([
+    [[0, 0], [0, 0]],
+    [[960, 540], [683, 384]],
+    [[1919, 1079], [1365, 767]],
+    [[1920, 1080], [1365, 767]],
+  ] as [[number, number], [number, number]][])('maps screen %j to model %j', (screen, model) => {
+    expect(fullHd.toModel(screen)).toEqual(model);
+  });
+
+  it.each([
+    { x: 1280, y: 800 },
+    { x: 1440, y: 900 },
+    { x: 1920, y: 1080 },
+    { x: 2560, y: 1600 },
+  ])('round-trips every model pixel at %j', (screen) => {
+    const scaler = createCoordinateScaler(screen);
+    for (let x = 0; x < scaler.model.x; x += 7) {
+      for (let y = 0; y < scaler.model.y; y += 7) {
+        expect(scaler.toModel(scaler.toScreen([x, y]))).toEqual([x, y]);
+      }
+    }
+    const edge: [number, number] = [scaler.model.x - 1, scaler.model.y - 1];
+    expect(scaler.toModel(scaler.toScreen(edge))).toEqual(edge);
+  });
+});
+
+describe('zoomScreenshot', () => {
+  /**
+   * PNG whose left half is black and right half white
+   */
+  const halves = async ({ x, y }: { x: number; y: number }) => {
+    const pixels = Buffer.alloc(x * y);
+    for (let i = 0; i < pixels.length; i++) pixels[i] = i % x < x / 2 ? 0 : 255;
+    return new Uint8Array(await sharp(pixels, { raw: { width: x, height: y, channels: 1 } }).png().toBuffer());
+  };
+
+  /**
+   * Size of a PNG and the brightness of its pixels on row `y`
+   */
+  const readRow = async (image: Uint8Array, y: number) => {
+    const { data, info } = await sharp(image).greyscale().raw().toBuffer({ resolveWithObject: true });
+    const row = Array.from(data.subarray(y * info.width, (y + 1) * info.width));
+    return { width: info.width, height: info.height, row };
+  };
+
+  it('crops real pixels and enlarges them up to four times', async () => {
+    const scaler = createCoordinateScaler(DEFAULT_RESOLUTION);
+
+    // 24 pixels across the middle of the screen: 12 black, then 12 white
+    const zoomed = await scaler.zoomScreenshot(await halves(DEFAULT_RESOLUTION), [500, 0, 523, 9]);
+
+    const { width, height, row } = await readRow(zoomed, 20);
+    expect([width, height]).toEqual([96, 40]);
+    expect(row.slice(0, 44).every((value) => value < 30)).toBe(true);
+    expect(row.slice(52).every((value) => value > 225)).toBe(true);
+  });
+
+  it('crops from the full-resolution screen and fills the model resolution', async () => {
+    const screen = { x: 1920, y: 1080 };
+    const scaler = createCoordinateScaler(screen);
+
+    // The right half of the screenshot is the right half of the screen
+    const zoomed = await scaler.zoomScreenshot(await halves(screen), [683, 0, 1365, 767]);
+
+    const { width, height, row } = await readRow(zoomed, 100);
+    expect([width, height]).toEqual([683, 768]);
+    expect(row.every((value) => value > 225)).toBe(true);
+  });
+
+  it.each([
+    ['reversed corners', [523, 9, 500, 0], [500, 0, 523, 9]],
+    ['a region past the edges', [1000, 700, 2000, 2000], [1000, 700, 1023, 767]],
+    ['negative coordinates', [-50, -50, 20.4, 30.6], [0, 0, 20, 31]],
+  ] as [string, ScreenRegion, ScreenRegion][])('clamps %s to the screen', (_, region, clamped) => {
+    expect(createCoordinateScaler(DEFAULT_RESOLUTION).clampRegion(region)).toEqual(clamped);
+  });
+
+  it('refuses a region with no area', async () => {
+    const scaler = createCoordinateScaler(DEFAULT_RESOLUTION);
+
+    await expect(
+      scaler.zoomScreenshot(await halves(DEFAULT_RESOLUTION), [10, 10, 10, 50]),
+    ).rejects.toThrow('Zoom region [10, 10, 10, 50] is empty');
+  });
+});
@@ -0,0 +1,117 @@
+import sharp from 'sharp';
+import type { ScreenResolution } from '@/lib/types/sessions';
+
+/**
+ * Resolutions the model is most accurate at, by aspect ratio
+ * (XGA 4:3, WXGA 16:10, FWXGA ~16:9)
+ */
+const MODEL_TARGETS: ScreenResolution[] = [
+  { x: 1024, y: 768 },
+  { x: 1280, y: 800 },
+  { x: 1366, y: 768 },
+];
+
+/**
+ * Largest size used when no target matches the screen's aspect ratio
+ */
+const MAX_MODEL_RESOLUTION: ScreenResolution = { x: 1280, y: 800 };
+
+/**
+ * Get the resolution screenshots are scaled to before reaching the model
+ */
+export function getModelResolution(screen: ScreenResolution): ScreenResolution {
+  const ratio = screen.x / screen.y;
+  const target = MODEL_TARGETS.find(
+    (t) => Math.abs(t.x / t.y - ratio) < 0.02 && t.x <= screen.x,
+  );
+  if (target) return target;
+
+  const scale = Math.min(
+    MAX_MODEL_RESOLUTION.x / screen.x,
+    MAX_MODEL_RESOLUTION.y / screen.y,
+    1,
+  );
+  return { x: Math.round(screen.x * scale), y: Math.round(screen.y * scale) };
+}
+
+/**
+ * Screen region as [x1, y1, x2, y2]: top-left and bottom-right corners
+ */
+export type ScreenRegion = [number, number, number, number];
+
+/**
+ * How far a zoomed region may be enlarged beyond its real pixels
+ */
+const MAX_ZOOM_FACTOR = 4;
+
+/**
+ * Converts between model coordinates and real screen pixels
+ */
+export interface CoordinateScaler {
+  screen: ScreenResolution;
+  model: ScreenResolution;
+  isScaled: boolean;
+  toScreen([x, y]: [number, number]): [number, number];
+  toModel([x, y]: [number, number]): [number, number];
+  /** Downscale a PNG screenshot to the model resolution */
+  scaleScreenshot(image: Uint8Array): Promise<Uint8Array>;
+  /** Clamp a model-coordinate region to the screen, ordering its corners */
+  clampRegion(region: ScreenRegion): ScreenRegion;
+  /** Crop a model-coordinate region from a full-size PNG screenshot, enlarged to fill the model resolution */
+  zoomScreenshot(image: Uint8Array, region: ScreenRegion): Promise<Uint8Array>;
+}
+
+export function createCoordinateScaler(screen: ScreenResolution): CoordinateScaler {
+  const model = getModelResolution(screen);
+  const isScaled = model.x !== screen.x || model.y !== screen.y;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max - 1);
+  const toScreen = ([x, y]: [number, number]): [number, number] => [
+    clamp(Math.round((x * screen.x) / model.x), screen.x),
+    clamp(Math.round((y * screen.y) / model.y), screen.y),
+  ];
+  const clampRegion = ([x1, y1, x2, y2]: ScreenRegion): ScreenRegion => [
+    clamp(Math.round(Math.min(x1, x2)), model.x),
+    clamp(Math.round(Math.min(y1, y2)), model.y),
+    clamp(Math.round(Math.max(x1, x2)), model.x),
+    clamp(Math.round(Math.max(y1, y2)), model.y),
+  ];
+
+  return {
+    screen,
+    model,
+    isScaled,
+    toScreen,
+    toModel: ([x, y]) => [
+      clamp(Math.round((x * model.x) / screen.x), model.x),
+      clamp(Math.round((y * model.y) / screen.y), model.y),
+    ],
+    scaleScreenshot: async (image) => {
+      if (!isScaled) return image;
+      const resized = await sharp(image)
+        .resize(model.x, model.y, { fit: 'fill' })
+        .png()
+        .toBuffer();
+      return new Uint8Array(resized);
+    },
+    clampRegion,
+    zoomScreenshot: async (image, region) => {
+      const [x1, y1, x2, y2] = clampRegion(region);
+      if (x2 - x1 < 1 || y2 - y1 < 1) {
+        throw new Error(`Zoom region [${region.join(', ')}] is empty`);
+      }
+
+      // Crop at real pixels, so small text is read from the full-resolution screen
+      const [left, top] = toScreen([x1, y1]);
+      const [right, bottom] = toScreen([x2, y2]);
+      const width = right - left + 1;
+      const height = bottom - top + 1;
+      const factor = Math.min(model.x / width, model.y / height, MAX_ZOOM_FACTOR);
+      const zoomed = await sharp(image)
+        .extract({ left, top, width, height })
+        .resize(Math.round(width * factor), Math.round(height * factor), { fit: 'fill' })
+        .png()
+        .toBuffer();
+      return new Uint8Array(zoomed);
+    },
+  };
+}
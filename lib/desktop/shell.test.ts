@@ -0,0 +1,84 @@
+import { execFile } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { restartShell, runInShell } from './shell';
+import type { Desktop, DesktopCommandResult } from './types';
+
+/**
+ * Desktop running commands in local bash, with the shell state moved into `stateDir`
+ * Timeouts kill bash outright, like the providers do.
+ */
+const createBashDesktop = (stateDir: string) =>
+  ({
+    commands: {
+      run: (command, opts) =>
+        new Promise<DesktopCommandResult>((resolve) => {
+          execFile(
+            'bash',
+            ['-c', command.replaceAll('/tmp/.agent-shell', stateDir)],
+            { timeout: opts?.timeoutMs, killSignal: 'SIGKILL' },
+            (error, stdout, stderr) => {
+              const timedOut = Boolean(error?.killed);
+              const exitCode = timedOut ? 124 : typeof error?.code === 'number' ? error.code : 0;
+              resolve({ stdout, stderr, exitCode, timedOut });
+            },
+          );
+        }),
+    },
+  }) as Pick<Desktop, 'commands'> as Desktop;
+
+describe('runInShell', () => {
+  let dir: string;
+  let desktop: Desktop;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-shell-'));
+    desktop = createBashDesktop(join(dir, 'state'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps cwd, exports, functions, aliases and shell options between calls', async () => {
+    await runInShell(
+      desktop,
+      `cd ${dir}; export GREETING=hello; greet() { echo "$GREETING $1"; }; ` +
+        `alias hi='greet alias'; set -o pipefail; LOCAL_ONLY=1`,
+    );
+
+    const result = await runInShell(
+      desktop,
+      'pwd; greet function; hi; false | true; echo "pipe $? local ${LOCAL_ONLY:-unset}"',
+    );
+
+    expect(result.stdout).toBe(`${dir}\nhello function\nhello alias\npipe 1 local unset\n`);
+    expect(result.cwd).toBe(dir);
+    expect(result.stderr).toBe('');
+  });
+
+  it('keeps the state from before a command that timed out, without its changes', async () => {
+    await runInShell(desktop, `cd ${dir}; export STAGE=before`);
+
+    const timedOut = await runInShell(desktop, 'cd /; export STAGE=during; sleep 2', {
+      timeoutMs: 300,
+    });
+    expect(timedOut.timedOut).toBe(true);
+    expect(timedOut.cwd).toBeUndefined();
+
+    const result = await runInShell(desktop, 'echo "$PWD $STAGE"');
+    expect(result.stdout).toBe(`${dir} before\n`);
+  });
+
+  it('starts from a fresh shell after a restart', async () => {
+    await runInShell(desktop, `cd ${dir}; export STAGE=before`);
+
+    await restartShell(desktop);
+
+    const result = await runInShell(desktop, 'echo "${STAGE:-unset}"');
+    expect(result.stdout).toBe('unset\n');
+    expect(result.cwd).not.toBe(dir);
+  });
+});
@@ -0,0 +1,106 @@
+import type { Desktop, DesktopCommandOptions, DesktopCommandResult } from './types';
+
+/**
+ * Directory inside the desktop holding the persistent shell state
+ * Kept on the desktop itself so it survives server restarts and pause/resume.
+ */
+const STATE_DIR = '/tmp/.agent-shell';
+
+/**
+ * Marks the trailing cwd report the wrapper appends to stderr
+ */
+const CWD_MARKER = '__AGENT_SHELL_CWD__:';
+
+/**
+ * Result of a command run in the persistent shell
+ */
+export interface ShellCommandResult extends DesktopCommandResult {
+  cwd?: string; // Working directory after the command finished
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Wrap a command so it starts from the saved cwd, environment, functions, aliases and shell options,
+ * and saves them again on exit - including when the command itself calls `exit`.
+ * A command killed on timeout or abort never reaches the exit trap, so its changes are lost
+ * and the next command starts from the state saved before it.
+ */
+function wrapCommand(command: string): string {
+  return [
+    `mkdir -p ${STATE_DIR}`,
+    `[ -f ${STATE_DIR}/env ] && source ${STATE_DIR}/env 2>/dev/null`,
+    `[ -f ${STATE_DIR}/cwd ] && cd "$(cat ${STATE_DIR}/cwd)" 2>/dev/null`,
+    '__agent_shell_save() {',
+    `  { export -p | grep -vE '^declare -x (PWD|OLDPWD|SHLVL|_)='; declare -f; alias -p; set +o; shopt -p; } > ${STATE_DIR}/env 2>/dev/null`,
+    `  pwd > ${STATE_DIR}/cwd`,
+    `  printf '\\n${CWD_MARKER}%s\\n' "$PWD" >&2`,
+    '}',
+    'trap __agent_shell_save EXIT',
+    'shopt -s expand_aliases',
+    `eval ${shellQuote(command)}`,
+  ].join('\n');
+}
+
+/**
+ * Strip the cwd report from stderr
+ */
+function extractCwd(stderr: string): { stderr: string; cwd?: string } {
+  const index = stderr.lastIndexOf(`\n${CWD_MARKER}`);
+  if (index === -1) return { stderr };
+  const cwd = stderr.slice(index + CWD_MARKER.length + 1).trim();
+  return { stderr: stderr.slice(0, index), cwd: cwd || undefined };
+}
+
+/**
+ * Forward streamed stderr without the cwd report
+ * A line start that could still turn into the marker is held back until it can be told apart.
+ */
+function withoutCwdReport(onStderr: (data: string) => void): (data: string) => void {
+  let pending = '';
+  let midLine = false;
+  return (data) => {
+    let text = pending + data;
+    let output = '';
+    pending = '';
+    while (text) {
+      const newline = text.indexOf('\n');
+      const line = newline === -1 ? text : text.slice(0, newline + 1);
+      text = newline === -1 ? '' : text.slice(newline + 1);
+      if (!midLine && (line.startsWith(CWD_MARKER) || CWD_MARKER.startsWith(line))) {
+        if (newline === -1) pending = line;
+        continue;
+      }
+      output += line;
+      midLine = newline === -1;
+    }
+    if (output) onStderr(output);
+  };
+}
+
+/**
+ * Run a command in the desktop's persistent shell
+ * `cd`, exported variables, functions, aliases and `set`/`shopt` options carry over to the next call.
+ * Each call is a new bash process, so unexported variables and background jobs don't.
+ */
+export async function runInShell(
+  desktop: Desktop,
+  command: string,
+  opts?: DesktopCommandOptions,
+): Promise<ShellCommandResult> {
+  const result = await desktop.commands.run(wrapCommand(command), {
+    ...opts,
+    onStderr: opts?.onStderr && withoutCwdReport(opts.onStderr),
+  });
+  return { ...result, ...extractCwd(result.stderr) };
+}
+
+/**
+ * Reset the persistent shell to a fresh environment in the home directory
+ */
+export async function restartShell(desktop: Desktop): Promise<void> {
+  const result = await desktop.commands.run(`rm -rf ${STATE_DIR}`);
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to restart shell: ${result.stderr || result.error}`);
+  }
+}
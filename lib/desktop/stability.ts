@@ -0,0 +1,67 @@
+import sharp from 'sharp';
+import type { Desktop } from './types';
+
+const POLL_INTERVAL_MS = 500;
+const STABLE_FOR_MS = 1000; // How long the screen must stay unchanged
+
+/**
+ * Screenshots are compared as small grayscale thumbnails, so a blinking caret or
+ * spinner-sized change doesn't keep the screen "changing" forever.
+ */
+const THUMBNAIL_SIZE = { width: 160, height: 100 };
+const PIXEL_THRESHOLD = 24; // Gray levels a pixel may shift before it counts as changed
+const CHANGED_FRACTION = 0.002; // Share of changed pixels that counts as a screen change
+
+/**
+ * Outcome of waiting for the screen to settle
+ */
+export interface ScreenStabilityResult {
+  stable: boolean; // False when the timeout passed first
+  waitedMs: number;
+  checks: number; // Screenshots taken
+}
+
+async function thumbnail(desktop: Desktop): Promise<Buffer> {
+  return sharp(await desktop.screenshot())
+    .resize(THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+}
+
+function hasChanged(before: Buffer, after: Buffer): boolean {
+  let changed = 0;
+  for (let i = 0; i < before.length; i++) {
+    if (Math.abs(before[i] - after[i]) > PIXEL_THRESHOLD) changed++;
+  }
+  return changed / before.length > CHANGED_FRACTION;
+}
+
+/**
+ * Poll screenshots until the screen stops changing or `timeoutMs` passes
+ */
+export async function waitForStableScreen(
+  desktop: Desktop,
+  opts: { timeoutMs: number; signal?: AbortSignal },
+): Promise<ScreenStabilityResult> {
+  const startedAt = Date.now();
+  let previous = await thumbnail(desktop);
+  let unchangedSince = Date.now();
+  let checks = 1;
+
+  while (Date.now() - startedAt < opts.timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    opts.signal?.throwIfAborted();
+
+    const current = await thumbnail(desktop);
+    checks++;
+    if (hasChanged(previous, current)) {
+      unchangedSince = Date.now();
+    } else if (Date.now() - unchangedSince >= STABLE_FOR_MS) {
+      return { stable: true, waitedMs: Date.now() - startedAt, checks };
+    }
+    previous = current;
+  }
+
+  return { stable: false, waitedMs: Date.now() - startedAt, checks };
+}
@@ -0,0 +1,129 @@
+/**
+ * Mouse button identifiers
+ */
+export type MouseButton = 'left' | 'right' | 'middle';
+
+/**
+ * Scroll directions supported by desktop providers
+ */
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Result of a command executed on the desktop
+ */
+export interface DesktopCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  error?: string; // Provider-specific error message for non-zero exits
+  timedOut?: boolean; // Killed after timeoutMs; output is what was captured until then
+  aborted?: boolean; // Killed through the abort signal
+}
+
+/**
+ * Command execution options
+ */
+export interface DesktopCommandOptions {
+  timeoutMs?: number;
+  /** Called with output chunks as they arrive, before the command finishes */
+  onStdout?: (data: string) => void;
+  onStderr?: (data: string) => void;
+  /** Kills the command and every process it started when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Command runner exposed by a desktop
+ */
+export interface DesktopCommands {
+  /**
+   * Run a command to completion.
+   * Resolves for any exit code - callers inspect `exitCode`.
+   */
+  run(command: string, opts?: DesktopCommandOptions): Promise<DesktopCommandResult>;
+}
+
+/**
+ * Text file access on the desktop's filesystem
+ */
+export interface DesktopFiles {
+  /** Read a file as UTF-8; rejects if it doesn't exist */
+  read(path: string): Promise<string>;
+  /** Write a file, creating missing parent directories */
+  write(path: string, content: string): Promise<void>;
+}
+
+/**
+ * A running desktop that tools can drive
+ */
+export interface Desktop {
+  /** Provider-scoped identifier, persisted as `ChatSession.sandboxId` */
+  readonly id: string;
+  commands: DesktopCommands;
+  files: DesktopFiles;
+  screenshot(): Promise<Uint8Array>;
+  moveMouse(x: number, y: number): Promise<void>;
+  click(button?: MouseButton, clicks?: number): Promise<void>;
+  mouseDown(button?: MouseButton): Promise<void>;
+  mouseUp(button?: MouseButton): Promise<void>;
+  getCursorPosition(): Promise<[number, number]>;
+  write(text: string): Promise<void>;
+  /**
+   * Press X keysyms (see ./keys); an array is pressed together as a chord
+   */
+  press(key: string | string[]): Promise<void>;
+  /** Hold keysyms down until keyUp() - used for hold_key and modifier clicks */
+  keyDown(keys: string[]): Promise<void>;
+  keyUp(keys: string[]): Promise<void>;
+  scroll(direction: ScrollDirection, amount: number): Promise<void>;
+  drag(from: [number, number], to: [number, number]): Promise<void>;
+  /**
+   * URL of a VNC/noVNC stream that can be embedded in an iframe
+   */
+  getStreamUrl(): Promise<string>;
+  /**
+   * Reset the desktop's idle timeout, for providers whose desktops expire
+   */
+  keepAlive(timeoutMs: number): Promise<void>;
+}
+
+/**
+ * Options used when creating a new desktop
+ */
+export interface DesktopCreateOptions {
+  resolution: [number, number];
+  timeoutMs?: number;
+}
+
+/**
+ * Desktop state as reported by a provider, or null when it no longer exists
+ */
+export type DesktopState = 'running' | 'paused' | null;
+
+/**
+ * Backend that creates and connects to desktops
+ */
+export interface DesktopProvider {
+  readonly name: string;
+  create(opts: DesktopCreateOptions): Promise<Desktop>;
+  /**
+   * Connect to an existing desktop.
+   * Should throw an error containing "not found" when the desktop no longer exists.
+   */
+  connect(id: string): Promise<Desktop>;
+  /**
+   * Pause a desktop, preserving its state until it is resumed through connect().
+   * Should throw an error containing "not found" when the desktop no longer exists.
+   */
+  pause(id: string): Promise<void>;
+  /**
+   * Kill a desktop. Resolves false when it was already gone.
+   */
+  kill(id: string): Promise<boolean>;
+  getState(id: string): Promise<DesktopState>;
+}
+
+/**
+ * Factory used to lazily construct a provider
+ */
+export type DesktopProviderFactory = () => DesktopProvider;
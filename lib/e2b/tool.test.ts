@@ -0,0 +1,304 @@
+import type { ToolExecutionOptions } from "ai";
+import sharp from "sharp";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ApprovalRequester } from "@/lib/approval/requests";
+import { registerDesktopProvider, type DesktopCommandResult } from "@/lib/desktop";
+import { createFakeProvider, type FakeDesktopProvider } from "@/lib/desktop/providers/fake";
+import { createSecretScope, saveSecret } from "@/lib/secrets/vault";
+import {
+  accessibilityTreeTool,
+  bashTool,
+  browserTool,
+  computerTool,
+  processTool,
+  textEditorTool,
+  waitUntilStableTool,
+  zoomTool,
+} from "./tool";
+
+const SECRET = "hunter22";
+const PLACEHOLDER = "{{secret:api_token}}";
+
+const ok = (stdout: string): DesktopCommandResult => ({ stdout, stderr: "", exitCode: 0 });
+
+/**
+ * Class of the focused window and the active Chrome tab, as the desktop reports them
+ */
+let focused: { window: string; url?: string } = { window: "xterm" };
+
+/**
+ * Desktop whose helper scripts all print the secret somewhere, and which reports `focused`
+ */
+const provider = createFakeProvider({
+  runCommand: (command) => {
+    if (command.includes("getactivewindow")) return ok(JSON.stringify(focused));
+    if (command.includes("Atspi")) {
+      return ok(
+        JSON.stringify({
+          applications: [
+            {
+              role: "application",
+              name: "firefox",
+              children: [{ role: "password text", name: "Token", value: SECRET, children: [] }],
+            },
+          ],
+        }),
+      );
+    }
+    if (command.startsWith("python3")) {
+      return ok(
+        JSON.stringify({ url: "https://example.com/", title: "Keys", content: `Your key: ${SECRET}` }),
+      );
+    }
+    if (command.includes("base64 -w0")) {
+      // Started commands are stored with their placeholders
+      const encoded = Buffer.from(`./deploy --token ${PLACEHOLDER}`).toString("base64");
+      return ok(`p-test\t42\t1700000000000\t0\t0\t0\t${encoded}\n`);
+    }
+    if (command.startsWith("wc -c")) return ok("30\n");
+    if (command.startsWith("tail -c")) {
+      return ok(command.endsWith("stdout") ? `Deploying with ${SECRET}\n` : "");
+    }
+    if (command.startsWith("if [ -d")) return ok("file\n");
+    return ok("");
+  },
+});
+
+const options: ToolExecutionOptions = { toolCallId: "call-1", messages: [] };
+
+let sandboxId: string;
+
+beforeAll(() => {
+  vi.stubEnv("DESKTOP_PROVIDER", "fake-tool-test");
+  registerDesktopProvider("fake-tool-test", () => provider);
+});
+
+beforeEach(async () => {
+  provider.reset();
+  sandboxId = (await provider.create({ resolution: [1024, 768] })).id;
+});
+
+describe("secret redaction in tool results", () => {
+  const secrets = createSecretScope("tool-test-owner");
+
+  beforeAll(() => {
+    saveSecret("tool-test-owner", "api_token", SECRET);
+  });
+
+  it("redacts polled process output", async () => {
+    const result = await processTool(sandboxId, undefined, undefined, secrets).execute!(
+      { action: "poll", process_id: "p-test" },
+      options,
+    );
+
+    expect(result.process).toMatchObject({
+      command: `./deploy --token ${PLACEHOLDER}`,
+      stdout: `Deploying with ${PLACEHOLDER}\n`,
+    });
+    expect(JSON.stringify(result)).not.toContain(SECRET);
+  });
+
+  it("redacts files viewed with the editor", async () => {
+    const desktop = await provider.connect(sandboxId);
+    await desktop.files.write("/home/user/.env", `API_TOKEN=${SECRET}`);
+
+    const result = await textEditorTool(sandboxId, undefined, secrets).execute!(
+      { command: "view", path: "/home/user/.env" },
+      options,
+    );
+
+    expect(result.output).toContain(`API_TOKEN=${PLACEHOLDER}`);
+    expect(JSON.stringify(result)).not.toContain(SECRET);
+  });
+
+  it("redacts page text from the browser", async () => {
+    const result = await browserTool(sandboxId, undefined, undefined, secrets).execute!(
+      { action: "get_text" },
+      options,
+    );
+
+    expect(result.page?.content).toBe(`Your key: ${PLACEHOLDER}`);
+  });
+
+  it("redacts accessibility tree values", async () => {
+    const result = await accessibilityTreeTool(sandboxId, undefined, secrets).execute!(
+      {},
+      options,
+    );
+
+    expect(result.output).toContain(PLACEHOLDER);
+    expect(JSON.stringify(result)).not.toContain(SECRET);
+  });
+
+  it("types the value but reports errors with the placeholder", async () => {
+    const desktop = await provider.connect(sandboxId);
+    vi.spyOn(desktop, "write").mockImplementationOnce(async (text) => {
+      throw new Error(`xdotool failed to type "${text}"`);
+    });
+
+    const computer = computerTool(sandboxId, undefined, undefined, "off", undefined, secrets);
+    const typed = computer.execute!({ action: "type", text: PLACEHOLDER }, options);
+
+    await expect(typed).rejects.toThrow(`xdotool failed to type "${PLACEHOLDER}"`);
+    expect(desktop.write).toHaveBeenCalledWith(SECRET);
+  });
+});
+
+describe("approval domains for computer input", () => {
+  // The user denies every held call
+  const requestApproval = vi.fn();
+  const deny: ApprovalRequester = async (toolCallId, reason, args, signal) => {
+    requestApproval(toolCallId, reason, args, signal);
+    return { args, approval: { status: "denied", reason } };
+  };
+  const click = () =>
+    computerTool(sandboxId, undefined, undefined, "off", deny).execute!(
+      { action: "left_click", coordinate: [10, 20] },
+      options,
+    );
+
+  beforeAll(() => {
+    vi.stubEnv("APPROVAL_POLICY", JSON.stringify({ domains: ["bank.example.com"] }));
+  });
+
+  afterAll(() => {
+    vi.stubEnv("APPROVAL_POLICY", undefined);
+  });
+
+  beforeEach(() => {
+    requestApproval.mockClear();
+  });
+
+  it.each([
+    [
+      "a Chrome tab on a covered host",
+      { window: "Google-chrome", url: "https://login.bank.example.com/" },
+      "Page is on bank.example.com",
+    ],
+    [
+      "Firefox, whose page can't be read",
+      { window: "firefox" },
+      "Could not read the page in the focused browser window",
+    ],
+  ])("holds a click in %s", async (_, window, reason) => {
+    focused = window;
+
+    const result = await click();
+
+    expect(requestApproval).toHaveBeenCalledWith("call-1", reason, expect.anything(), undefined);
+    expect(result).toMatchObject({ approval: { status: "denied" } });
+    expect(provider.calls.map((call) => call.method)).not.toContain("click");
+  });
+
+  it.each([
+    ["a Chrome tab on another host", { window: "Google-chrome", url: "https://example.com/" }],
+    ["a terminal", { window: "xterm" }],
+  ])("lets a click in %s through", async (_, window) => {
+    focused = window;
+
+    await click();
+
+    expect(requestApproval).not.toHaveBeenCalled();
+    expect(provider.calls.map((call) => call.method)).toContain("click");
+  });
+});
+
+describe("screenshot redaction", () => {
+  afterAll(() => {
+    vi.stubEnv("SCREENSHOT_REDACTION", undefined);
+  });
+
+  it("withholds screenshots when the policy is invalid", async () => {
+    vi.stubEnv("SCREENSHOT_REDACTION", '{"ocr": ["passport"]}');
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const computer = computerTool(sandboxId);
+    const zoom = zoomTool(sandboxId);
+
+    await expect(computer.execute!({ action: "screenshot" }, options)).rejects.toThrow(
+      "Screenshot withheld: SCREENSHOT_REDACTION is invalid",
+    );
+    await expect(zoom.execute!({ region: [0, 0, 100, 100] }, options)).rejects.toThrow(
+      "Screenshot withheld: SCREENSHOT_REDACTION is invalid",
+    );
+    vi.mocked(console.error).mockRestore();
+  });
+});
+
+describe("zoom", () => {
+  // Left half of the screen black, right half white
+  const pixels = Buffer.alloc(1024 * 768);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = i % 1024 < 512 ? 0 : 255;
+  let screens: FakeDesktopProvider;
+
+  beforeAll(async () => {
+    const screen = await sharp(pixels, { raw: { width: 1024, height: 768, channels: 1 } }).png().toBuffer();
+    screens = createFakeProvider({ screenshots: [new Uint8Array(screen)] });
+    registerDesktopProvider("fake-zoom-test", () => screens);
+    vi.stubEnv("DESKTOP_PROVIDER", "fake-zoom-test");
+  });
+
+  afterAll(() => {
+    vi.stubEnv("DESKTOP_PROVIDER", "fake-tool-test");
+  });
+
+  it("returns the clamped region, enlarged from the screen", async () => {
+    const { id } = await screens.create({ resolution: [1024, 768] });
+
+    const result = await zoomTool(id).execute!({ region: [523, 9, 500, -5] }, options);
+
+    expect(result.zoom).toEqual({ region: [500, 0, 523, 9], screenshotSize: { x: 1024, y: 768 } });
+    const { data, info } = await sharp(Buffer.from(result.data, "base64"))
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([96, 40]);
+    // 12 black pixels, then 12 white ones, each four times as wide
+    expect(data[20 * info.width + 20]).toBeLessThan(30);
+    expect(data[20 * info.width + 80]).toBeGreaterThan(225);
+  });
+});
+
+describe("wait_until_stable", () => {
+  it("caps the timeout at the session's max wait", async () => {
+    const result = await waitUntilStableTool(sandboxId, undefined, 0.5).execute!(
+      { timeout_seconds: 30 },
+      options,
+    );
+
+    expect(result.text).toMatch(
+      /^Screen was still changing after 0\.\d seconds \(capped from 30; this session allows at most 0\.5 seconds\)$/,
+    );
+  });
+
+  it("keeps the session's max wait within the overall limit", () => {
+    expect(waitUntilStableTool(sandboxId, undefined, 600).description).toContain(
+      "default and max 60",
+    );
+    expect(waitUntilStableTool(sandboxId).description).toContain("default and max 2");
+  });
+});
+
+describe("desktops created by tools", () => {
+  const resolution = { x: 1280, y: 800 };
+
+  it.each([
+    ["bash", () => bashTool(undefined, resolution).execute!({ command: "true" }, options)],
+    ["process", () => processTool(undefined, resolution).execute!({ action: "list" }, options)],
+    [
+      "str_replace_editor",
+      () => textEditorTool(undefined, resolution).execute!({ command: "view", path: "/" }, options),
+    ],
+    ["browser", () => browserTool(undefined, resolution).execute!({ action: "get_url" }, options)],
+    [
+      "wait_until_stable",
+      () => waitUntilStableTool(undefined, resolution, 0).execute!({}, options),
+    ],
+  ])("%s starts one at the session's resolution", async (_, execute) => {
+    await execute();
+
+    const created = provider.calls.filter((call) => call.method === "create").slice(1);
+    expect(created).toEqual([
+      expect.objectContaining({ args: [expect.objectContaining({ resolution: [1280, 800] })] }),
+    ]);
+  });
+});
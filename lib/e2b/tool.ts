@@ -1,156 +1,1284 @@
 import { anthropic } from "@ai-sdk/anthropic";
+import { tool, type ToolExecutionOptions } from "ai";
+import { z } from "zod";
+import {
+  getApprovalPolicy,
+  getCommandApprovalReason,
+  getFocusedPageApprovalReason,
+  getPageApprovalReason,
+  getPasswordFieldApprovalReason,
+  type ApprovalPolicy,
+} from "@/lib/approval/policy";
+import {
+  checkCommand,
+  formatCommandRefusal,
+  getCommandPolicy,
+} from "@/lib/approval/command-policy";
+import {
+  formatApprovalNote,
+  isApprovalGranted,
+  type ApprovalRequester,
+} from "@/lib/approval/requests";
+import type { Desktop } from "@/lib/desktop";
+import {
+  formatAccessibilityTree,
+  getAccessibilityTree,
+  isPasswordFieldFocused,
+  type AccessibilityTree,
+} from "@/lib/desktop/accessibility";
+import {
+  formatBrowserResult,
+  getFocusedBrowserPage,
+  isPasswordInput,
+  normalizeUrl,
+  runBrowserAction,
+} from "@/lib/desktop/browser";
+import {
+  createFile,
+  insertInFile,
+  replaceInFile,
+  undoEdit,
+  viewPath,
+} from "@/lib/desktop/editor";
+import { encodeScreenshot, getScreenshotEncoding } from "@/lib/desktop/encoding";
+import { parseKeyChord, parseKeySequence } from "@/lib/desktop/keys";
+import {
+  formatRedactionNote,
+  getRedactionPolicy,
+  redactScreenshot,
+} from "@/lib/desktop/redaction";
+import {
+  killProcess,
+  listProcesses,
+  MAX_PROCESS_WAIT_SECONDS,
+  pollProcess,
+  startProcess,
+  waitForProcess,
+  type BackgroundProcess,
+  type BackgroundProcessOutput,
+} from "@/lib/desktop/processes";
+import { createCoordinateScaler } from "@/lib/desktop/scaling";
+import { restartShell, runInShell } from "@/lib/desktop/shell";
+import { waitForStableScreen } from "@/lib/desktop/stability";
+import type { SecretScope } from "@/lib/secrets/vault";
+import type {
+  ApprovalRecord,
+  BashCommandResult,
+  BashOutputData,
+  BrowserAction,
+  BrowserResult,
+  CommandRefusal,
+  ProcessAction,
+  ScreenshotRedactions,
+  TextEditorCommand,
+} from "@/lib/types/events";
+import {
+  DEFAULT_MAX_WAIT_SECONDS,
+  DEFAULT_RESOLUTION,
+  type AutoScreenshotMode,
+  type ScreenResolution,
+} from "@/lib/types/sessions";
+import type { DiffLine } from "@/lib/utils/diff";
 import { getDesktop } from "./utils";
 
-const wait = async (seconds: number) => {
-  await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+const WAIT_SECONDS_LIMIT = 60; // Upper bound for a session's wait cap, inside the route's maxDuration
+const AUTO_SCREENSHOT_SETTLE_SECONDS = 0.5; // Pause before an auto screenshot so the UI can react
+
+const CLICK_ACTIONS = [
+  "left_click",
+  "double_click",
+  "triple_click",
+  "right_click",
+  "middle_click",
+  "left_mouse_up",
+  "left_click_drag",
+];
+
+/**
+ * Input actions the approval policy's domains cover when a browser window has focus
+ */
+const PAGE_INPUT_ACTIONS = [...CLICK_ACTIONS, "left_mouse_down", "type", "key"];
+
+/**
+ * Actions that get a screenshot attached for each auto screenshot mode
+ */
+const AUTO_SCREENSHOT_ACTIONS: Record<AutoScreenshotMode, string[]> = {
+  off: [],
+  clicks: CLICK_ACTIONS,
+  all: [...CLICK_ACTIONS, "type", "key", "scroll"],
+};
+
+/**
+ * Computer tool result; text results carry a screenshot in `data` when auto screenshots are on
+ */
+type ComputerToolResult =
+  | { type: "image"; data: string; mimeType: string; redactions?: ScreenshotRedactions }
+  | {
+      type: "text";
+      text: string;
+      data?: string;
+      mimeType?: string;
+      redactions?: ScreenshotRedactions;
+      approval?: ApprovalRecord;
+    };
+
+/**
+ * Hold a call for the user when the approval policy covers it
+ * Resolves to the arguments to run with, plus the decision if the call was held.
+ */
+const holdForApproval = async <T extends object>(
+  requestApproval: ApprovalRequester | undefined,
+  toolCallId: string,
+  args: T,
+  getReason: (policy: ApprovalPolicy) => Promise<string | null> | string | null,
+  signal?: AbortSignal,
+): Promise<{ args: T; approval?: ApprovalRecord }> => {
+  if (!requestApproval) return { args };
+  const reason = await getReason(getApprovalPolicy());
+  if (!reason) return { args };
+  return requestApproval(toolCallId, reason, args, signal);
+};
+
+/**
+ * Check a shell command against the command policy, then hold it for approval if the approval policy covers it
+ * Commands the user edited are checked again, so an edit can't get around a deny rule.
+ */
+const guardCommand = async <T extends { command?: string }>(
+  requestApproval: ApprovalRequester | undefined,
+  toolCallId: string,
+  args: T,
+  signal?: AbortSignal,
+): Promise<{ args: T; approval?: ApprovalRecord; refusal?: CommandRefusal }> => {
+  const policy = getCommandPolicy();
+  const refusal = checkCommand(policy, args.command ?? "");
+  if (refusal) return { args, refusal };
+
+  const held = await holdForApproval(
+    requestApproval,
+    toolCallId,
+    args,
+    (approvalPolicy) => getCommandApprovalReason(approvalPolicy, args.command ?? ""),
+    signal,
+  );
+  const editedRefusal =
+    held.approval?.status === "edited" ? checkCommand(policy, held.args.command ?? "") : null;
+  return editedRefusal ? { ...held, refusal: editedRefusal } : held;
 };
 
-export const resolution = { x: 1024, y: 768 };
+/**
+ * Prefix a result text with what became of a held call
+ */
+const withApprovalNote = (text: string, approval?: ApprovalRecord) =>
+  [formatApprovalNote(approval), text].filter(Boolean).join("\n");
+
+/**
+ * Replace secret values with placeholders in every string of a tool result
+ * Screenshot data is base64, not text, so it is left alone.
+ */
+const redactResult = <T>(secrets: SecretScope, value: T): T => {
+  if (typeof value === "string") return secrets.redact(value) as T;
+  if (Array.isArray(value)) return value.map((item) => redactResult(secrets, item)) as T;
+  if (value && typeof value === "object") {
+    const isImage = "mimeType" in value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isImage && key === "data" ? item : redactResult(secrets, item),
+      ]),
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Wrap a tool's execute so secret values reach neither the model nor the UI,
+ * whether in its result or in the message of an error it throws
+ */
+const withSecretsRedacted = <T extends { execute?: (...args: never[]) => PromiseLike<unknown> }>(
+  secrets: SecretScope | undefined,
+  wrapped: T,
+): T => {
+  const { execute } = wrapped;
+  if (!secrets || !execute) return wrapped;
+  return {
+    ...wrapped,
+    execute: async (...args: Parameters<typeof execute>) => {
+      try {
+        return redactResult(secrets, await execute(...args));
+      } catch (error) {
+        const redacted = new Error(
+          secrets.redact(error instanceof Error ? error.message : String(error)),
+        );
+        if (error instanceof Error) redacted.name = error.name; // Keeps aborts recognizable
+        throw redacted;
+      }
+    },
+  };
+};
 
-export const computerTool = (sandboxId: string) =>
-  anthropic.tools.computer_20250124({
-    displayWidthPx: resolution.x,
-    displayHeightPx: resolution.y,
+/**
+ * Sleep, rejecting early if the run is aborted
+ */
+const wait = async (seconds: number, signal?: AbortSignal) => {
+  signal?.throwIfAborted();
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, seconds * 1000);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+/**
+ * Run a mouse action while holding the modifier keys passed in `text`
+ */
+const withModifiers = async (
+  desktop: Desktop,
+  text: string | undefined,
+  action: () => Promise<void>,
+) => {
+  const modifiers = text ? parseKeyChord(text) : [];
+  if (modifiers.length === 0) {
+    await action();
+    return;
+  }
+  await desktop.keyDown(modifiers);
+  try {
+    await action();
+  } finally {
+    await desktop.keyUp(modifiers);
+  }
+};
+
+/**
+ * Session's wait cap; it comes from the client, so keep it within bounds
+ */
+const clampWaitCap = (maxWaitSeconds: number) =>
+  Math.min(Math.max(maxWaitSeconds, 0), WAIT_SECONDS_LIMIT);
+
+/**
+ * Note appended when a wait or hold_key was shortened to the session's cap
+ */
+const cappedSuffix = (requested: number, actual: number) =>
+  requested > actual
+    ? ` (capped from ${requested}; this session allows at most ${actual} seconds)`
+    : "";
+
+/**
+ * " while holding ctrl" suffix for results of modifier clicks
+ */
+const holdingSuffix = (text?: string) => (text ? ` while holding ${text}` : "");
+
+/**
+ * Computer tool for a session's desktop
+ * The model sees a scaled-down screen; coordinates are mapped back to real pixels.
+ * With `requestApproval`, typing into a password field and clicks or keystrokes in a browser window
+ * showing a covered domain wait for the user when the policy says so.
+ * `{{secret:name}}` placeholders in typed text are filled in from `secrets` only as the text is typed;
+ * results and errors show the placeholders.
+ * Screenshots go through the redaction policy before they are scaled or returned.
+ */
+export const computerTool = (
+  sandboxId: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  maxWaitSeconds = DEFAULT_MAX_WAIT_SECONDS,
+  autoScreenshot: AutoScreenshotMode = "off",
+  requestApproval?: ApprovalRequester,
+  secrets?: SecretScope,
+) => {
+  const scaler = createCoordinateScaler(resolution);
+  const waitCap = clampWaitCap(maxWaitSeconds);
+  const autoScreenshotActions = AUTO_SCREENSHOT_ACTIONS[autoScreenshot] ?? [];
+  const encoding = getScreenshotEncoding();
+  const redactionPolicy = getRedactionPolicy();
+
+  /**
+   * Screenshot redacted, scaled to the model resolution and encoded as base64
+   */
+  const captureScreenshot = async (desktop: Desktop, signal?: AbortSignal) => {
+    const { image, redactions } = await redactScreenshot(
+      desktop,
+      await desktop.screenshot(),
+      redactionPolicy,
+      signal,
+    );
+    const { data, mimeType } = await encodeScreenshot(await scaler.scaleScreenshot(image), encoding);
+    return { data: Buffer.from(data).toString("base64"), mimeType, redactions };
+  };
+
+  return withSecretsRedacted(secrets, anthropic.tools.computer_20250124({
+    displayWidthPx: scaler.model.x,
+    displayHeightPx: scaler.model.y,
     displayNumber: 1,
-    execute: async ({
-      action,
-      coordinate,
-      text,
-      duration,
-      scroll_amount,
-      scroll_direction,
-      start_coordinate,
-    }) => {
-      const desktop = await getDesktop(sandboxId);
-
-      switch (action) {
-        case "screenshot": {
-          const image = await desktop.screenshot();
-          // Convert image data to base64 immediately
-          const base64Data = Buffer.from(image).toString("base64");
-          return {
-            type: "image" as const,
-            data: base64Data,
-          };
-        }
-        case "wait": {
-          if (!duration) throw new Error("Duration required for wait action");
-          const actualDuration = Math.min(duration, 2);
-          await wait(actualDuration);
-          return {
-            type: "text" as const,
-            text: `Waited for ${actualDuration} seconds`,
-          };
-        }
-        case "left_click": {
-          if (!coordinate)
-            throw new Error("Coordinate required for left click action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          await desktop.leftClick();
-          return { type: "text" as const, text: `Left clicked at ${x}, ${y}` };
-        }
-        case "double_click": {
-          if (!coordinate)
-            throw new Error("Coordinate required for double click action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          await desktop.doubleClick();
-          return {
-            type: "text" as const,
-            text: `Double clicked at ${x}, ${y}`,
-          };
-        }
-        case "right_click": {
-          if (!coordinate)
-            throw new Error("Coordinate required for right click action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          await desktop.rightClick();
-          return { type: "text" as const, text: `Right clicked at ${x}, ${y}` };
-        }
-        case "mouse_move": {
-          if (!coordinate)
-            throw new Error("Coordinate required for mouse move action");
-          const [x, y] = coordinate;
-          await desktop.moveMouse(x, y);
-          return { type: "text" as const, text: `Moved mouse to ${x}, ${y}` };
-        }
-        case "type": {
-          if (!text) throw new Error("Text required for type action");
-          await desktop.write(text);
-          return { type: "text" as const, text: `Typed: ${text}` };
-        }
-        case "key": {
-          if (!text) throw new Error("Key required for key action");
-          await desktop.press(text === "Return" ? "enter" : text);
-          return { type: "text" as const, text: `Pressed key: ${text}` };
-        }
-        case "scroll": {
-          if (!scroll_direction)
-            throw new Error("Scroll direction required for scroll action");
-          if (!scroll_amount)
-            throw new Error("Scroll amount required for scroll action");
-
-          await desktop.scroll(
-            scroll_direction as "up" | "down",
-            scroll_amount,
-          );
-          return { type: "text" as const, text: `Scrolled ${text}` };
-        }
-        case "left_click_drag": {
-          if (!start_coordinate || !coordinate)
-            throw new Error("Coordinate required for mouse move action");
-          const [startX, startY] = start_coordinate;
-          const [endX, endY] = coordinate;
-
-          await desktop.drag([startX, startY], [endX, endY]);
-          return {
-            type: "text" as const,
-            text: `Dragged mouse from ${startX}, ${startY} to ${endX}, ${endY}`,
-          };
+    execute: async (input, options) => {
+      // The provider's execute type omits it, but ai passes the tool call id like for any tool
+      const { toolCallId, abortSignal } = options as ToolExecutionOptions;
+      const desktop = await getDesktop(sandboxId, resolution);
+      // Connecting can take a while - don't start input the user already stopped
+      abortSignal?.throwIfAborted();
+
+      const { args, approval } = await holdForApproval(
+        requestApproval,
+        toolCallId,
+        input,
+        async (policy) =>
+          (input.action === "type"
+            ? await getPasswordFieldApprovalReason(policy, () =>
+                isPasswordFieldFocused(desktop, scaler),
+              )
+            : null) ??
+          (PAGE_INPUT_ACTIONS.includes(input.action)
+            ? await getFocusedPageApprovalReason(policy, () =>
+                getFocusedBrowserPage(desktop, abortSignal),
+              )
+            : null),
+        abortSignal,
+      );
+      if (!isApprovalGranted(approval)) {
+        return { type: "text" as const, text: formatApprovalNote(approval), approval };
+      }
+      const {
+        action,
+        coordinate,
+        text,
+        duration,
+        scroll_amount,
+        scroll_direction,
+        start_coordinate,
+      } = args;
+
+      const runAction = async (): Promise<ComputerToolResult> => {
+        switch (action) {
+          case "screenshot": {
+            return {
+              type: "image" as const,
+              ...(await captureScreenshot(desktop, abortSignal)),
+            };
+          }
+          case "wait": {
+            if (!duration) throw new Error("Duration required for wait action");
+            const actualDuration = Math.min(duration, waitCap);
+            await wait(actualDuration, abortSignal);
+            return {
+              type: "text" as const,
+              text: `Waited for ${actualDuration} seconds${cappedSuffix(duration, actualDuration)}`,
+            };
+          }
+          case "left_click": {
+            if (!coordinate)
+              throw new Error("Coordinate required for left click action");
+            const [x, y] = coordinate;
+            await desktop.moveMouse(...scaler.toScreen([x, y]));
+            await withModifiers(desktop, text, () => desktop.click("left"));
+            return {
+              type: "text" as const,
+              text: `Left clicked at ${x}, ${y}${holdingSuffix(text)}`,
+            };
+          }
+          case "double_click": {
+            if (!coordinate)
+              throw new Error("Coordinate required for double click action");
+            const [x, y] = coordinate;
+            await desktop.moveMouse(...scaler.toScreen([x, y]));
+            await withModifiers(desktop, text, () => desktop.click("left", 2));
+            return {
+              type: "text" as const,
+              text: `Double clicked at ${x}, ${y}${holdingSuffix(text)}`,
+            };
+          }
+          case "triple_click": {
+            if (!coordinate)
+              throw new Error("Coordinate required for triple click action");
+            const [x, y] = coordinate;
+            await desktop.moveMouse(...scaler.toScreen([x, y]));
+            await withModifiers(desktop, text, () => desktop.click("left", 3));
+            return {
+              type: "text" as const,
+              text: `Triple clicked at ${x}, ${y}${holdingSuffix(text)}`,
+            };
+          }
+          case "right_click": {
+            if (!coordinate)
+              throw new Error("Coordinate required for right click action");
+            const [x, y] = coordinate;
+            await desktop.moveMouse(...scaler.toScreen([x, y]));
+            await withModifiers(desktop, text, () => desktop.click("right"));
+            return {
+              type: "text" as const,
+              text: `Right clicked at ${x}, ${y}${holdingSuffix(text)}`,
+            };
+          }
+          case "middle_click": {
+            if (!coordinate)
+              throw new Error("Coordinate required for middle click action");
+            const [x, y] = coordinate;
+            await desktop.moveMouse(...scaler.toScreen([x, y]));
+            await withModifiers(desktop, text, () => desktop.click("middle"));
+            return {
+              type: "text" as const,
+              text: `Middle clicked at ${x}, ${y}${holdingSuffix(text)}`,
+            };
+          }
+          case "left_mouse_down": {
+            // Coordinate is optional - the button is pressed wherever the cursor is
+            if (coordinate) {
+              await desktop.moveMouse(...scaler.toScreen(coordinate));
+            }
+            await desktop.mouseDown("left");
+            return { type: "text" as const, text: "Pressed left mouse button" };
+          }
+          case "left_mouse_up": {
+            if (coordinate) {
+              await desktop.moveMouse(...scaler.toScreen(coordinate));
+            }
+            await desktop.mouseUp("left");
+            return { type: "text" as const, text: "Released left mouse button" };
+          }
+          case "mouse_move": {
+            if (!coordinate)
+              throw new Error("Coordinate required for mouse move action");
+            const [x, y] = coordinate;
+            await desktop.moveMouse(...scaler.toScreen([x, y]));
+            return { type: "text" as const, text: `Moved mouse to ${x}, ${y}` };
+          }
+          case "cursor_position": {
+            const [x, y] = scaler.toModel(await desktop.getCursorPosition());
+            return {
+              type: "text" as const,
+              text: `Cursor position: ${x}, ${y}`,
+            };
+          }
+          case "type": {
+            if (!text) throw new Error("Text required for type action");
+            await desktop.write(secrets ? secrets.resolve(text) : text);
+            // The result keeps the placeholders
+            return { type: "text" as const, text: `Typed: ${text}` };
+          }
+          case "key": {
+            if (!text) throw new Error("Key required for key action");
+            for (const { keys, repeat } of parseKeySequence(text)) {
+              for (let i = 0; i < repeat; i++) {
+                abortSignal?.throwIfAborted();
+                await desktop.press(keys);
+              }
+            }
+            return { type: "text" as const, text: `Pressed key: ${text}` };
+          }
+          case "hold_key": {
+            if (!text) throw new Error("Key required for hold key action");
+            if (!duration)
+              throw new Error("Duration required for hold key action");
+            const actualDuration = Math.min(duration, waitCap);
+            const keys = parseKeyChord(text);
+            await desktop.keyDown(keys);
+            try {
+              await wait(actualDuration, abortSignal);
+            } finally {
+              await desktop.keyUp(keys);
+            }
+            return {
+              type: "text" as const,
+              text: `Held ${text} for ${actualDuration} seconds${cappedSuffix(duration, actualDuration)}`,
+            };
+          }
+          case "scroll": {
+            if (!scroll_direction)
+              throw new Error("Scroll direction required for scroll action");
+            if (!scroll_amount)
+              throw new Error("Scroll amount required for scroll action");
+
+            // Scroll wherever the model points, so the right pane or table receives the wheel events
+            if (coordinate) {
+              await desktop.moveMouse(...scaler.toScreen(coordinate));
+            }
+            await withModifiers(desktop, text, () =>
+              desktop.scroll(scroll_direction, scroll_amount),
+            );
+            const position = coordinate
+              ? ` at ${coordinate[0]}, ${coordinate[1]}`
+              : "";
+            return {
+              type: "text" as const,
+              text: `Scrolled ${scroll_direction} by ${scroll_amount}${position}${holdingSuffix(text)}`,
+            };
+          }
+          case "left_click_drag": {
+            if (!start_coordinate || !coordinate)
+              throw new Error("Coordinate required for mouse move action");
+            const [startX, startY] = start_coordinate;
+            const [endX, endY] = coordinate;
+
+            await desktop.drag(
+              scaler.toScreen([startX, startY]),
+              scaler.toScreen([endX, endY]),
+            );
+            return {
+              type: "text" as const,
+              text: `Dragged mouse from ${startX}, ${startY} to ${endX}, ${endY}`,
+            };
+          }
+          default:
+            throw new Error(`Unsupported action: ${action}`);
         }
-        default:
-          throw new Error(`Unsupported action: ${action}`);
+      };
+
+      const actionResult = await runAction();
+      // Held calls keep the decision, and the model hears about edits
+      const result: ComputerToolResult =
+        approval && actionResult.type === "text"
+          ? { ...actionResult, text: withApprovalNote(actionResult.text, approval), approval }
+          : actionResult;
+      if (result.type !== "text" || !autoScreenshotActions.includes(action)) {
+        return result;
       }
+      // Give the UI a moment to react before capturing it
+      await wait(AUTO_SCREENSHOT_SETTLE_SECONDS, abortSignal);
+      return { ...result, ...(await captureScreenshot(desktop, abortSignal)) };
     },
     experimental_toToolResultContent(result) {
       if (typeof result === "string") {
         return [{ type: "text", text: result }];
       }
+      const redactionNote = formatRedactionNote(result.redactions);
       if (result.type === "image" && result.data) {
         return [
+          ...(redactionNote ? [{ type: "text" as const, text: redactionNote }] : []),
           {
             type: "image",
             data: result.data,
-            mimeType: "image/png",
+            mimeType: result.mimeType,
           },
         ];
       }
       if (result.type === "text" && result.text) {
-        return [{ type: "text", text: result.text }];
+        return result.data
+          ? [
+              { type: "text", text: [result.text, redactionNote].filter(Boolean).join("\n") },
+              { type: "image", data: result.data, mimeType: result.mimeType },
+            ]
+          : [{ type: "text", text: result.text }];
       }
       throw new Error("Invalid result format");
     },
+  }));
+};
+
+/**
+ * Zoom tool
+ * Returns a screen region at up to full resolution, for text too small to read in a screenshot.
+ * Not a computer tool action: computer_20250124's actions are defined by the API, so the model never emits new ones.
+ */
+export const zoomTool = (
+  sandboxId: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+) => {
+  const scaler = createCoordinateScaler(resolution);
+  const encoding = getScreenshotEncoding();
+  const redactionPolicy = getRedactionPolicy();
+
+  return tool({
+    description:
+      "Zoom into a region of the screen to read small text such as table cells, labels and form validation messages. " +
+      "The region is cropped from the full-resolution screen and enlarged, so it is sharper than the same area in a screenshot.",
+    parameters: z.object({
+      region: z
+        .tuple([z.number(), z.number(), z.number(), z.number()])
+        .describe(
+          "[x1, y1, x2, y2]: top-left and bottom-right corners in screenshot coordinates.",
+        ),
+    }),
+    execute: async ({ region }, { abortSignal }) => {
+      const desktop = await getDesktop(sandboxId, resolution);
+      abortSignal?.throwIfAborted();
+      // Redact the whole screen first, so a crop can't cut a match in half
+      const { image, redactions } = await redactScreenshot(
+        desktop,
+        await desktop.screenshot(),
+        redactionPolicy,
+        abortSignal,
+      );
+      const zoomed = await scaler.zoomScreenshot(image, region);
+      const { data, mimeType } = await encodeScreenshot(zoomed, encoding);
+      return {
+        type: "image" as const,
+        data: Buffer.from(data).toString("base64"),
+        mimeType,
+        zoom: { region: scaler.clampRegion(region), screenshotSize: scaler.model },
+        redactions,
+      };
+    },
+    experimental_toToolResultContent: (result) => {
+      const redactionNote = formatRedactionNote(result.redactions);
+      return [
+        ...(redactionNote ? [{ type: "text" as const, text: redactionNote }] : []),
+        { type: "image", data: result.data, mimeType: result.mimeType },
+      ];
+    },
   });
+};
+
+/**
+ * Accessibility tree tool result: text for the model, the tree for the UI
+ */
+type AccessibilityToolResult = {
+  type: "accessibility";
+  output: string;
+  tree?: AccessibilityTree;
+  error?: string;
+};
+
+/**
+ * Accessibility tree tool
+ * Lists windows and controls with their bounds, so the model can target elements instead of guessing pixels.
+ * Field values that hold a secret come back as its placeholder.
+ */
+export const accessibilityTreeTool = (
+  sandboxId: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  secrets?: SecretScope,
+) => {
+  const scaler = createCoordinateScaler(resolution);
 
-export const bashTool = (sandboxId?: string) =>
-  anthropic.tools.bash_20250124({
-    execute: async ({ command }) => {
-      const desktop = await getDesktop(sandboxId);
+  return withSecretsRedacted(secrets, tool({
+    description:
+      "List the visible windows and their controls from the desktop's accessibility tree (AT-SPI): " +
+      "role, name, state, current value of text fields and bounds as (x1, y1, x2, y2) in screenshot coordinates. " +
+      "Use it to find form fields and buttons precisely - click the center of an element's bounds.",
+    parameters: z.object({
+      app: z
+        .string()
+        .optional()
+        .describe("Only include applications whose name contains this text, e.g. firefox."),
+    }),
+    execute: async ({ app }, { abortSignal }): Promise<AccessibilityToolResult> => {
+      const desktop = await getDesktop(sandboxId, resolution);
+      abortSignal?.throwIfAborted();
 
       try {
-        const result = await desktop.commands.run(command);
-        return (
-          result.stdout || "(Command executed successfully with no output)"
-        );
+        const tree = await getAccessibilityTree(desktop, scaler, app);
+        return { type: "accessibility", output: formatAccessibilityTree(tree), tree };
       } catch (error) {
-        console.error("Bash command failed:", error);
-        if (error instanceof Error) {
-          return `Error executing command: ${error.message}`;
-        } else {
-          return `Error executing command: ${String(error)}`;
-        }
+        console.error("Accessibility tree dump failed:", error);
+        return {
+          type: "accessibility",
+          output: "",
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    experimental_toToolResultContent(result) {
+      return [
+        { type: "text", text: result.error ? `Error: ${result.error}` : result.output },
+      ];
+    },
+  }));
+};
+
+/**
+ * Browser tool result: page state for the model and the UI
+ */
+type BrowserToolResult = {
+  type: "browser";
+  action: BrowserAction;
+  page?: BrowserResult;
+  error?: string;
+  approval?: ApprovalRecord;
+};
+
+/**
+ * Browser tool driving the desktop's Chrome over the DevTools protocol
+ * With `requestApproval`, actions on covered domains and filling password inputs wait for the user.
+ * Secret values in page text and HTML come back as placeholders.
+ */
+export const browserTool = (
+  sandboxId?: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  requestApproval?: ApprovalRequester,
+  secrets?: SecretScope,
+) =>
+  withSecretsRedacted(secrets, tool({
+    description:
+      "Control the desktop's Chrome browser through the Chrome DevTools Protocol, starting Chrome if it isn't running. " +
+      "Actions: navigate (url), get_url, get_text (page or selector text), get_dom (simplified HTML of the page or selector), " +
+      "click (CSS selector) and fill (CSS selector and value; selects match an option's value or label). " +
+      "Every action returns the current URL and title. Prefer it over pixel clicks for web pages; " +
+      "use the computer tool for other applications or when selectors don't work.",
+    parameters: z.object({
+      action: z.enum(["navigate", "get_url", "get_text", "get_dom", "click", "fill"]),
+      url: z.string().optional().describe("Page to open, for navigate."),
+      selector: z
+        .string()
+        .optional()
+        .describe("CSS selector: required for click and fill, narrows get_text and get_dom."),
+      value: z.string().optional().describe("Text to enter, for fill."),
+    }),
+    execute: async (input, { toolCallId, abortSignal }): Promise<BrowserToolResult> => {
+      const desktop = await getDesktop(sandboxId, resolution);
+
+      const { args, approval } = await holdForApproval(
+        requestApproval,
+        toolCallId,
+        input,
+        async (policy) => {
+          const passwordReason =
+            input.action === "fill" && input.selector
+              ? await getPasswordFieldApprovalReason(policy, () =>
+                  isPasswordInput(desktop, input.selector!, abortSignal),
+                )
+              : null;
+          // Navigation is checked against where it goes, anything else against the open page
+          return (
+            passwordReason ??
+            getPageApprovalReason(policy, async () =>
+              input.action === "navigate"
+                ? normalizeUrl(input.url ?? "")
+                : (await runBrowserAction(desktop, { action: "get_url" }, abortSignal)).url,
+            )
+          );
+        },
+        abortSignal,
+      );
+      const { action, url, selector, value } = args;
+      if (!isApprovalGranted(approval)) {
+        return { type: "browser", action, approval };
+      }
+
+      try {
+        const page = await runBrowserAction(desktop, { action, url, selector, value }, abortSignal);
+        return { type: "browser", action, page, approval };
+      } catch (error) {
+        console.error(`Browser ${action} failed:`, error);
+        return {
+          type: "browser",
+          action,
+          error: error instanceof Error ? error.message : String(error),
+          approval,
+        };
       }
     },
+    experimental_toToolResultContent(result) {
+      if (!isApprovalGranted(result.approval)) {
+        return [{ type: "text", text: formatApprovalNote(result.approval) }];
+      }
+      return [
+        {
+          type: "text",
+          text: withApprovalNote(
+            result.error || !result.page
+              ? `Error: ${result.error}`
+              : formatBrowserResult(result.page),
+            result.approval,
+          ),
+        },
+      ];
+    },
+  }));
+
+/**
+ * Wait-until-stable tool
+ * Polls screenshots until the screen settles, so the model doesn't screenshot-loop on slow pages.
+ * Capped by the session's max wait like the computer tool's wait action.
+ * Its own tool rather than a computer action for the same reason as `zoomTool`.
+ */
+export const waitUntilStableTool = (
+  sandboxId?: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  maxWaitSeconds = DEFAULT_MAX_WAIT_SECONDS,
+) => {
+  const waitCap = clampWaitCap(maxWaitSeconds);
+
+  return tool({
+    description:
+      "Wait until the screen stops changing - a page finished loading, a dialog opened, an animation ended - " +
+      `or until \`timeout_seconds\` pass (default and max ${waitCap} in this session). ` +
+      "Reports how long it waited. Use it after actions that trigger loading instead of taking repeated screenshots, " +
+      "then take one screenshot to see the result.",
+    parameters: z.object({
+      timeout_seconds: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Give up after this many seconds."),
+    }),
+    execute: async ({ timeout_seconds }, { abortSignal }) => {
+      const desktop = await getDesktop(sandboxId, resolution);
+      const requested = timeout_seconds ?? waitCap;
+      const timeoutSeconds = Math.min(requested, waitCap);
+      const { stable, waitedMs } = await waitForStableScreen(desktop, {
+        timeoutMs: timeoutSeconds * 1000,
+        signal: abortSignal,
+      });
+      const waited = (waitedMs / 1000).toFixed(1);
+      return {
+        type: "text" as const,
+        text: stable
+          ? `Screen was stable after ${waited} seconds`
+          : `Screen was still changing after ${waited} seconds${cappedSuffix(requested, timeoutSeconds)}`,
+      };
+    },
   });
+};
+
+/**
+ * Bash tool result: structured output plus a discriminator for the event tracker
+ */
+type BashToolResult = BashCommandResult & {
+  type: "bash";
+  approval?: ApprovalRecord;
+  refusal?: CommandRefusal; // The command policy refused the command, so it didn't run
+};
+
+const MAX_OUTPUT_CHARS = 20000; // Per stream; the tail is kept since errors usually come last
+
+const truncateOutput = (output: string) =>
+  output.length > MAX_OUTPUT_CHARS
+    ? { text: output.slice(-MAX_OUTPUT_CHARS), truncated: true }
+    : { text: output, truncated: false };
+
+/**
+ * Default bash timeout; longer commands belong in the process tool
+ */
+const BASH_TIMEOUT_MS = Number(process.env.BASH_TIMEOUT_MS) || 60000;
+
+const OUTPUT_FLUSH_MS = 250; // How often streamed bash output is sent to the client
+
+/**
+ * Batch output chunks per stream so chatty commands don't flood the data stream
+ * Secret values are swapped for placeholders; the tail that could be the start of one is held back
+ * until the next chunk shows whether it is.
+ */
+const createOutputStreamer = (
+  toolCallId: string,
+  onOutput: (data: BashOutputData) => void,
+  secrets?: SecretScope,
+) => {
+  const pending = { stdout: "", stderr: "" };
+  const flush = (final = false) => {
+    const holdBack = final || !secrets ? 0 : Math.max(secrets.maxValueLength() - 1, 0);
+    for (const stream of ["stdout", "stderr"] as const) {
+      const text = secrets ? secrets.redact(pending[stream]) : pending[stream];
+      const ready = text.slice(0, text.length - holdBack);
+      pending[stream] = text.slice(ready.length);
+      if (!ready) continue;
+      onOutput({ type: "bash-output", toolCallId, stream, text: ready });
+    }
+  };
+  const timer = setInterval(flush, OUTPUT_FLUSH_MS);
+
+  return {
+    onStdout: (data: string) => {
+      pending.stdout += data;
+    },
+    onStderr: (data: string) => {
+      pending.stderr += data;
+    },
+    close: () => {
+      clearInterval(timer);
+      flush(true);
+    },
+  };
+};
+
+/**
+ * Render stdout and stderr as tagged sections for the model
+ */
+const formatOutput = (output: {
+  stdout: string;
+  stderr: string;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+}) => {
+  const sections: string[] = [];
+  if (output.stdout) {
+    const note = output.stdoutTruncated
+      ? ` (truncated to the last ${MAX_OUTPUT_CHARS} characters)`
+      : "";
+    sections.push(`<stdout${note}>\n${output.stdout}\n</stdout>`);
+  }
+  if (output.stderr) {
+    const note = output.stderrTruncated
+      ? ` (truncated to the last ${MAX_OUTPUT_CHARS} characters)`
+      : "";
+    sections.push(`<stderr${note}>\n${output.stderr}\n</stderr>`);
+  }
+  if (!output.stdout && !output.stderr) {
+    sections.push("(no output)");
+  }
+  return sections;
+};
+
+/**
+ * Render a bash result as text for the model
+ */
+const formatBashResult = (result: BashToolResult) => {
+  if (result.refusal) {
+    return formatCommandRefusal(result.refusal);
+  }
+  if (!isApprovalGranted(result.approval)) {
+    return formatApprovalNote(result.approval);
+  }
+  if (result.error && result.exitCode === -1) {
+    return `Error executing command: ${result.error}`;
+  }
+
+  const sections = [`Exit code: ${result.exitCode}`];
+  if (result.restarted) {
+    sections.unshift("Shell restarted.");
+  }
+  if (result.timedOut) {
+    sections.unshift(
+      `Command timed out after ${BASH_TIMEOUT_MS / 1000} seconds and was stopped. ` +
+        "Shell changes it made (cd, exports, functions, aliases, options) were not kept. " +
+        "Use the process tool to run long commands in the background.",
+    );
+  }
+  if (result.aborted) {
+    sections.unshift("Command was stopped by the user.");
+  }
+  if (result.cwd) {
+    sections.push(`Working directory: ${result.cwd}`);
+  }
+  sections.push(...formatOutput(result));
+  return withApprovalNote(sections.join("\n"), result.approval);
+};
+
+/**
+ * Bash tool for a session's desktop
+ * `onOutput` receives batches of stdout/stderr while a command runs.
+ * Commands are checked against the command policy first; with `requestApproval`,
+ * commands the approval policy covers then wait for the user.
+ * `{{secret:name}}` placeholders are filled in from `secrets` just before the command runs,
+ * and secret values in its output are replaced by placeholders again.
+ */
+export const bashTool = (
+  sandboxId?: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  onOutput?: (data: BashOutputData) => void,
+  requestApproval?: ApprovalRequester,
+  secrets?: SecretScope,
+) =>
+  withSecretsRedacted(secrets, anthropic.tools.bash_20250124({
+    execute: async (input, options): Promise<BashToolResult> => {
+      // The provider's execute type omits it, but ai passes the tool call id like for any tool
+      const { toolCallId, abortSignal } = options as ToolExecutionOptions;
+      const {
+        args: { command, restart },
+        approval,
+        refusal,
+      } = await guardCommand(requestApproval, toolCallId, input, abortSignal);
+      if (refusal || !isApprovalGranted(approval)) {
+        return {
+          type: "bash",
+          stdout: "",
+          stderr: "",
+          exitCode: -1,
+          durationMs: 0,
+          stdoutTruncated: false,
+          stderrTruncated: false,
+          approval,
+          refusal,
+        };
+      }
+
+      const desktop = await getDesktop(sandboxId, resolution);
+      const startedAt = Date.now();
+      const streamer = onOutput && createOutputStreamer(toolCallId, onOutput, secrets);
+      const redact = (text: string) => (secrets ? secrets.redact(text) : text);
+
+      try {
+        if (restart) {
+          await restartShell(desktop);
+          if (!command.trim()) {
+            return {
+              type: "bash",
+              stdout: "",
+              stderr: "",
+              exitCode: 0,
+              durationMs: Date.now() - startedAt,
+              stdoutTruncated: false,
+              stderrTruncated: false,
+              restarted: true,
+              approval,
+            };
+          }
+        }
+
+        const result = await runInShell(desktop, secrets ? secrets.resolve(command) : command, {
+          timeoutMs: BASH_TIMEOUT_MS,
+          onStdout: streamer?.onStdout,
+          onStderr: streamer?.onStderr,
+          signal: abortSignal,
+        });
+        const stdout = truncateOutput(redact(result.stdout));
+        const stderr = truncateOutput(redact(result.stderr));
+        return {
+          type: "bash",
+          stdout: stdout.text,
+          stderr: stderr.text,
+          exitCode: result.exitCode,
+          durationMs: Date.now() - startedAt,
+          stdoutTruncated: stdout.truncated,
+          stderrTruncated: stderr.truncated,
+          cwd: result.cwd,
+          restarted: restart || undefined,
+          timedOut: result.timedOut,
+          aborted: result.aborted,
+          approval,
+        };
+      } catch (error) {
+        const message = redact(error instanceof Error ? error.message : String(error));
+        console.error("Bash command failed:", message);
+        return {
+          type: "bash",
+          stdout: "",
+          stderr: "",
+          exitCode: -1,
+          durationMs: Date.now() - startedAt,
+          stdoutTruncated: false,
+          stderrTruncated: false,
+          error: message,
+          approval,
+        };
+      } finally {
+        streamer?.close();
+      }
+    },
+    experimental_toToolResultContent(result) {
+      // Older chats stored bash results as plain strings
+      if (typeof result === "string") {
+        return [{ type: "text", text: result }];
+      }
+      return [{ type: "text", text: formatBashResult(result) }];
+    },
+  }));
+
+/**
+ * Process tool result: the process (or list of processes) an action touched
+ */
+type ProcessToolResult = {
+  type: "process";
+  action: ProcessAction;
+  process?: BackgroundProcess | BackgroundProcessOutput;
+  processes?: BackgroundProcess[];
+  error?: string;
+  approval?: ApprovalRecord;
+  refusal?: CommandRefusal; // The command policy refused the command, so it didn't start
+};
+
+/**
+ * Render a process tool result as text for the model
+ */
+const formatProcessResult = (result: ProcessToolResult) => {
+  if (result.refusal) {
+    return formatCommandRefusal(result.refusal);
+  }
+  if (!isApprovalGranted(result.approval)) {
+    return formatApprovalNote(result.approval);
+  }
+  if (result.error) {
+    return withApprovalNote(`Error: ${result.error}`, result.approval);
+  }
+  if (result.processes) {
+    if (result.processes.length === 0) return "No background processes.";
+    return result.processes
+      .map(
+        (p) =>
+          `${p.id} [${p.status}${p.exitCode !== null ? `, exit ${p.exitCode}` : ""}] ${p.command}`,
+      )
+      .join("\n");
+  }
+  const p = result.process;
+  if (!p) return "No process.";
+
+  const sections = [
+    `Process ${p.id} (pid ${p.pid}): ${p.status}` +
+      (p.exitCode !== null ? `, exit code ${p.exitCode}` : ""),
+  ];
+  if ("stdout" in p) {
+    sections.push(...formatOutput(p));
+  }
+  return withApprovalNote(sections.join("\n"), result.approval);
+};
+
+/**
+ * Background process tool
+ * Starts long-running commands (dev servers, test suites) and returns a handle to poll, wait on or kill.
+ * Started commands go through the same command and approval policies as bash,
+ * and fill in `{{secret:name}}` placeholders the same way; output shows placeholders again.
+ */
+export const processTool = (
+  sandboxId?: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  requestApproval?: ApprovalRequester,
+  secrets?: SecretScope,
+) =>
+  withSecretsRedacted(secrets, tool({
+    description:
+      "Run long-running commands in the background on the computer. " +
+      "`start` runs `command` from the bash tool's working directory and environment and returns a process id " +
+      "(optionally killed after `timeout_seconds`). " +
+      "`poll` returns the status and latest output of `process_id`, `wait` blocks until it exits " +
+      `or \`timeout_seconds\` pass (max ${MAX_PROCESS_WAIT_SECONDS}), \`kill\` stops it and its children, and \`list\` shows every process. ` +
+      "Use this instead of the bash tool for servers and commands that take more than a minute.",
+    parameters: z.object({
+      action: z.enum(["start", "poll", "wait", "kill", "list"]),
+      command: z.string().optional().describe("Command to start. Required for start."),
+      process_id: z
+        .string()
+        .optional()
+        .describe("Process id returned by start. Required for poll, wait and kill."),
+      timeout_seconds: z
+        .number()
+        .positive()
+        .optional()
+        .describe("For start: kill the process after this long. For wait: how long to wait."),
+    }),
+    execute: async (input, { toolCallId, abortSignal }): Promise<ProcessToolResult> => {
+      const { args, approval, refusal } =
+        input.action === "start"
+          ? await guardCommand(requestApproval, toolCallId, input, abortSignal)
+          : { args: input, approval: undefined, refusal: undefined };
+      const { action, command, process_id, timeout_seconds } = args;
+      if (refusal || !isApprovalGranted(approval)) {
+        return { type: "process", action, approval, refusal };
+      }
+
+      const desktop = await getDesktop(sandboxId, resolution);
+
+      const requireId = () => {
+        if (!process_id) throw new Error(`process_id required for ${action} action`);
+        return process_id;
+      };
+
+      try {
+        switch (action) {
+          case "start": {
+            if (!command) throw new Error("command required for start action");
+            // The stored command keeps its placeholders, since the sidebar lists it
+            const started = await startProcess(desktop, command, {
+              timeoutSeconds: timeout_seconds,
+              resolve: secrets?.resolve,
+            });
+            return { type: "process", action, process: started, approval };
+          }
+          case "poll":
+            return { type: "process", action, process: await pollProcess(desktop, requireId()) };
+          case "wait":
+            return {
+              type: "process",
+              action,
+              process: await waitForProcess(
+                desktop,
+                requireId(),
+                timeout_seconds ?? 30,
+                abortSignal,
+              ),
+            };
+          case "kill":
+            return { type: "process", action, process: await killProcess(desktop, requireId()) };
+          case "list":
+            return { type: "process", action, processes: await listProcesses(desktop) };
+        }
+      } catch (error) {
+        console.error(`Process ${action} failed:`, error);
+        return {
+          type: "process",
+          action,
+          error: error instanceof Error ? error.message : String(error),
+          approval,
+        };
+      }
+    },
+    experimental_toToolResultContent(result) {
+      return [{ type: "text", text: formatProcessResult(result) }];
+    },
+  }));
+
+/**
+ * Text editor tool result: what the model sees, plus a diff for the UI
+ */
+type TextEditorToolResult = {
+  type: "text_editor";
+  command: TextEditorCommand;
+  output: string;
+  diff?: DiffLine[];
+  error?: string;
+};
+
+/**
+ * Text editor tool operating on the desktop's filesystem
+ * Must be registered as "str_replace_editor".
+ * Secret values in viewed files come back as placeholders.
+ */
+export const textEditorTool = (
+  sandboxId?: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+  secrets?: SecretScope,
+) =>
+  withSecretsRedacted(secrets, anthropic.tools.textEditor_20250124({
+    execute: async ({
+      command,
+      path,
+      file_text,
+      insert_line,
+      new_str,
+      old_str,
+      view_range,
+    }): Promise<TextEditorToolResult> => {
+      const desktop = await getDesktop(sandboxId, resolution);
+
+      try {
+        switch (command) {
+          case "view":
+            return {
+              type: "text_editor",
+              command,
+              output: await viewPath(desktop, path, view_range),
+            };
+          case "create": {
+            if (file_text === undefined)
+              throw new Error("Parameter `file_text` is required for command: create");
+            const edit = await createFile(desktop, path, file_text);
+            return { type: "text_editor", command, ...edit };
+          }
+          case "str_replace": {
+            if (old_str === undefined)
+              throw new Error("Parameter `old_str` is required for command: str_replace");
+            const edit = await replaceInFile(desktop, path, old_str, new_str);
+            return { type: "text_editor", command, ...edit };
+          }
+          case "insert": {
+            if (insert_line === undefined)
+              throw new Error("Parameter `insert_line` is required for command: insert");
+            if (new_str === undefined)
+              throw new Error("Parameter `new_str` is required for command: insert");
+            const edit = await insertInFile(desktop, path, insert_line, new_str);
+            return { type: "text_editor", command, ...edit };
+          }
+          case "undo_edit": {
+            const edit = await undoEdit(desktop, path);
+            return { type: "text_editor", command, ...edit };
+          }
+        }
+      } catch (error) {
+        console.error(`Text editor ${command} failed:`, error);
+        return {
+          type: "text_editor",
+          command,
+          output: "",
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    experimental_toToolResultContent(result) {
+      // The diff is only for the UI - the output already shows the edited snippet
+      return [
+        { type: "text", text: result.error ? `Error: ${result.error}` : result.output },
+      ];
+    },
+  }));
@@ -1,16 +1,45 @@
 "use server";
 
-import { Sandbox } from "@e2b/desktop";
-import { resolution } from "./tool";
+import { getDesktopProvider, type DesktopCreateOptions } from "@/lib/desktop";
+import { MODIFIER_KEYSYMS } from "@/lib/desktop/keys";
+import { getDesktopPool } from "@/lib/desktop/pool";
+import {
+  killProcess,
+  listProcesses,
+  type BackgroundProcess,
+} from "@/lib/desktop/processes";
+import { restartShell } from "@/lib/desktop/shell";
+import {
+  DEFAULT_RESOLUTION,
+  type SandboxState,
+  type ScreenResolution,
+} from "@/lib/types/sessions";
+import { isNotFoundError } from "@/lib/utils/error-helpers";
 
-export const getDesktop = async (id?: string) => {
+const SANDBOX_TIMEOUT_MS = 300000; // Container timeout in milliseconds
+
+/**
+ * Options for the warm pool, which only holds default-resolution desktops
+ */
+const poolCreateOptions: DesktopCreateOptions = {
+  resolution: [DEFAULT_RESOLUTION.x, DEFAULT_RESOLUTION.y],
+  timeoutMs: SANDBOX_TIMEOUT_MS,
+};
+
+export const getDesktop = async (
+  id?: string,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
+) => {
+  const provider = getDesktopProvider();
+  const createOptions: DesktopCreateOptions = {
+    resolution: [resolution.x, resolution.y],
+    timeoutMs: SANDBOX_TIMEOUT_MS,
+  };
   try {
     if (id) {
       try {
-        // Sandbox.connect() automatically resumes paused sandboxes (per E2B docs)
-        // When connecting to existing sandbox, don't call stream.start() - connect() handles it
-        // The stream will be ready after connect() completes
-        const connected = await Sandbox.connect(id);
+        // Providers resume paused desktops on connect and have the stream ready once it resolves
+        const connected = await provider.connect(id);
         return connected;
       } catch (connectError: unknown) {
         // Handle connection errors - display error and create new instance
@@ -41,6 +70,16 @@ export const getDesktop = async (id?: string) => {
       }
     }
 
+    // Claim a pre-started sandbox from the warm pool when one is ready
+    const isDefaultResolution =
+      resolution.x === DEFAULT_RESOLUTION.x && resolution.y === DEFAULT_RESOLUTION.y;
+    const warm = isDefaultResolution
+      ? await getDesktopPool(poolCreateOptions)?.claim()
+      : null;
+    if (warm) {
+      return warm;
+    }
+
     // Create new sandbox (either no id provided, or previous one didn't exist/expired)
     // Handle connection timeout errors with retry
     const maxCreateRetries = 3;
@@ -48,11 +87,7 @@ export const getDesktop = async (id?: string) => {
     
     for (let attempt = 0; attempt < maxCreateRetries; attempt++) {
       try {
-        const desktop = await Sandbox.create({
-          resolution: [resolution.x, resolution.y],
-          timeoutMs: 300000, // Container timeout in milliseconds
-        });
-        await desktop.stream.start();
+        const desktop = await provider.create(createOptions);
         return desktop;
       } catch (createError: unknown) {
         lastCreateError = createError;
@@ -90,9 +125,19 @@ export const getDesktop = async (id?: string) => {
   }
 };
 
-export const getDesktopURL = async (id?: string) => {
+/**
+ * Start filling the warm desktop pool (no-op when DESKTOP_POOL_SIZE is 0)
+ */
+export const warmDesktopPool = async (): Promise<void> => {
+  getDesktopPool(poolCreateOptions)?.fill();
+};
+
+export const getDesktopURL = async (
+  id?: string,
+  resolution?: ScreenResolution,
+) => {
   try {
-    const desktop = await getDesktop(id);
+    const desktop = await getDesktop(id, resolution);
     
     // Retry logic with exponential backoff for getting stream URL
     // The stream server may need time to be ready after connect()
@@ -102,8 +147,8 @@ export const getDesktopURL = async (id?: string) => {
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const streamUrl = desktop.stream.getUrl();
-        return { streamUrl, id: desktop.sandboxId };
+        const streamUrl = await desktop.getStreamUrl();
+        return { streamUrl, id: desktop.id };
       } catch (streamError: unknown) {
         lastError = streamError;
         const streamErr = streamError as { message?: string };
@@ -143,57 +188,110 @@ export const getDesktopURL = async (id?: string) => {
 };
 
 /**
- * Pause a sandbox to preserve its state
- * Note: betaPause() is not available in @e2b/desktop package
- * Sandboxes auto-pause after inactivity, and Sandbox.connect() auto-resumes them
- * This function is kept for compatibility but does nothing (sandboxes handle persistence automatically)
- * Based on E2B Persistence API: https://e2b.dev/docs/sandbox/persistence
+ * Pause a sandbox to preserve its state without paying for compute
+ * Returns the resulting lifecycle state ("expired" if it no longer exists)
  */
-export const pauseDesktop = async (id: string): Promise<void> => {
+export const pauseDesktop = async (id: string): Promise<SandboxState> => {
   try {
-    // Note: betaPause() is not available in @e2b/desktop
-    // Sandboxes automatically pause after inactivity and auto-resume on connect()
-    // This is a no-op - sandbox persistence is handled automatically by E2B
-    console.log(`Sandbox ${id} persistence is handled automatically by E2B (auto-pause on inactivity)`);
-  } catch (error: unknown) {
-    // Silently handle - pausing is automatic in E2B
-    const err = error as { 
-      message?: string; 
-      statusCode?: number; 
-      code?: string;
-      name?: string;
-    };
-    const isNotFound = 
-      err.name === 'NotFoundError' ||
-      err.statusCode === 404 ||
-      err.code === '404' ||
-      (err.message && (err.message.includes('404') || err.message.includes("doesn't exist") || err.message.includes('not found')));
-    
-    if (!isNotFound) {
-      console.warn(`Note: Sandbox ${id} persistence is automatic - no manual pause needed`);
+    await getDesktopProvider().pause(id);
+    console.log(`Sandbox ${id} paused`);
+    return "paused";
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return "expired";
     }
+    console.error(`Error pausing sandbox ${id}:`, error);
+    throw error;
   }
 };
 
-export const killDesktop = async (id: string = "desktop") => {
+/**
+ * Resume a paused sandbox
+ * Connecting resumes paused sandboxes, so this is a connect that reports state
+ */
+export const resumeDesktop = async (id: string): Promise<SandboxState> => {
   try {
-    // Don't actually kill - just try to connect to verify it exists
-    // Sandboxes auto-pause after inactivity, so we don't need to kill them
-    await Sandbox.connect(id);
-    // Just verify connection - sandbox will auto-pause when inactive
-    console.log(`Sandbox ${id} verified - will auto-pause when inactive`);
-  } catch (error: unknown) {
-    // If sandbox doesn't exist, that's fine
-    const err = error as { message?: string; statusCode?: number; code?: string };
-    const is404 = 
-      err.statusCode === 404 ||
-      err.code === '404' ||
-      (err.message && err.message.includes('404')) ||
-      (err.message && err.message.includes("doesn't exist"));
-    
-    if (!is404) {
-      console.warn("Error verifying sandbox:", error);
+    await getDesktopProvider().connect(id);
+    console.log(`Sandbox ${id} resumed`);
+    return "running";
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return "expired";
     }
-    // Silently ignore 404 errors - sandbox already doesn't exist
+    console.error(`Error resuming sandbox ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Kill a sandbox so it stops running (and billing)
+ * Sandboxes that are already gone are reported as killed
+ */
+export const killDesktop = async (id: string): Promise<SandboxState> => {
+  try {
+    const killed = await getDesktopProvider().kill(id);
+    console.log(
+      killed ? `Sandbox ${id} killed` : `Sandbox ${id} was already gone`,
+    );
+    return "killed";
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return "killed";
+    }
+    console.error(`Error killing sandbox ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get the lifecycle state of a sandbox ("expired" if it no longer exists)
+ */
+export const getDesktopState = async (id: string): Promise<SandboxState> => {
+  const state = await getDesktopProvider().getState(id);
+  return state ?? "expired";
+};
+
+/**
+ * Reset a sandbox's persistent bash shell (cwd, environment, aliases)
+ */
+export const restartDesktopShell = async (id: string): Promise<void> => {
+  const desktop = await getDesktopProvider().connect(id);
+  await restartShell(desktop);
+  console.log(`Shell restarted in sandbox ${id}`);
+};
+
+/**
+ * List the background processes started in a sandbox
+ */
+export const listDesktopProcesses = async (
+  id: string,
+): Promise<BackgroundProcess[]> => {
+  const desktop = await getDesktopProvider().connect(id);
+  return listProcesses(desktop);
+};
+
+/**
+ * Kill a background process (and its children) in a sandbox
+ */
+export const killDesktopProcess = async (
+  id: string,
+  processId: string,
+): Promise<BackgroundProcess> => {
+  const desktop = await getDesktopProvider().connect(id);
+  const killed = await killProcess(desktop, processId);
+  console.log(`Process ${processId} in sandbox ${id} killed`);
+  return killed;
+};
+
+/**
+ * Release every modifier key and mouse button on a desktop
+ * Used after a stopped run, which may have left keys or a drag held down.
+ */
+export const releaseDesktopInputs = async (id: string): Promise<void> => {
+  // Connect rather than getDesktop so a missing desktop isn't replaced by a new one
+  const desktop = await getDesktopProvider().connect(id);
+  await desktop.keyUp(MODIFIER_KEYSYMS);
+  for (const button of ["left", "middle", "right"] as const) {
+    await desktop.mouseUp(button);
   }
 };
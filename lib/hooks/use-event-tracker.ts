@@ -1,23 +1,36 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import type { UIMessage } from 'ai';
+import type { JSONValue, UIMessage } from 'ai';
 import { useEventStore } from './use-event-store';
-import type {
-  AgentEvent,
-  ComputerEvent,
-  BashEvent,
-  ComputerEventPayload,
-  BashEventPayload,
+import {
+  createEventFromToolCall,
+  parseApproval,
+  parseRefusal,
+  parseToolResult,
+} from '@/lib/utils/event-helpers';
+import {
+  isApprovalRequestData,
+  isBashOutputData,
+  MAX_LIVE_OUTPUT_CHARS,
+  type BashLiveOutput,
 } from '@/lib/types/events';
 
 /**
  * Track tool invocations from messages and create/update events
+ * Bash output streamed in the chat's data parts is attached to pending events as `liveOutput`,
+ * and calls held by the approval policy get a pending `approval`.
  */
-export function useEventTracker(messages: UIMessage[], chatStatus?: 'error' | 'submitted' | 'streaming' | 'ready') {
+export function useEventTracker(
+  messages: UIMessage[],
+  chatStatus?: 'error' | 'submitted' | 'streaming' | 'ready',
+  data?: JSONValue[],
+) {
   const { addEvent, updateEvent, setAgentStatus } = useEventStore();
   const processedToolCalls = useRef<Set<string>>(new Set());
   const eventStartTimes = useRef<Map<string, number>>(new Map());
+  const liveOutputs = useRef<Map<string, BashLiveOutput>>(new Map());
+  const processedDataCount = useRef(0);
 
   useEffect(() => {
     // Track agent status based on messages and chat status
@@ -94,43 +107,8 @@ export function useEventTracker(messages: UIMessage[], chatStatus?: 'error' | 's
           const timestamp = Date.now();
           eventStartTimes.current.set(toolCallId, timestamp);
 
-          let event: AgentEvent;
-
-          if (toolName === 'computer') {
-            const payload: ComputerEventPayload = {
-              action: args.action as ComputerEventPayload['action'],
-              coordinate: args.coordinate as [number, number] | undefined,
-              text: args.text as string | undefined,
-              duration: args.duration as number | undefined,
-              scroll_amount: args.scroll_amount as number | undefined,
-              scroll_direction: args.scroll_direction as 'up' | 'down' | undefined,
-              start_coordinate: args.start_coordinate as
-                | [number, number]
-                | undefined,
-            };
-
-            event = {
-              id: toolCallId,
-              timestamp,
-              type: 'computer',
-              toolType: 'computer',
-              payload,
-              status: 'pending',
-            } satisfies ComputerEvent;
-          } else if (toolName === 'bash') {
-            const payload: BashEventPayload = {
-              command: args.command as string,
-            };
-
-            event = {
-              id: toolCallId,
-              timestamp,
-              type: 'bash',
-              toolType: 'bash',
-              payload,
-              status: 'pending',
-            } satisfies BashEvent;
-          } else {
+          const event = createEventFromToolCall(toolCallId, toolName, args, timestamp);
+          if (!event) {
             // Unknown tool type, skip
             continue;
           }
@@ -141,51 +119,54 @@ export function useEventTracker(messages: UIMessage[], chatStatus?: 'error' | 's
           // Tool completed - update event
           const startTime = eventStartTimes.current.get(toolCallId);
           const duration = startTime ? Date.now() - startTime : undefined;
-
-          // Determine result type
-          let toolResult:
-            | { type: 'text' | 'image'; data?: string; text?: string; mimeType?: string }
-            | undefined;
-
-          if (result) {
-            if (typeof result === 'string') {
-              toolResult = { type: 'text', text: result };
-            } else if (
-              typeof result === 'object' &&
-              result !== null &&
-              'type' in result
-            ) {
-              if (result.type === 'image' && 'data' in result) {
-                toolResult = {
-                  type: 'image',
-                  data: result.data as string,
-                  mimeType: 'image/png',
-                };
-              } else if (result.type === 'text' && 'text' in result) {
-                toolResult = {
-                  type: 'text',
-                  text: result.text as string,
-                };
-              }
-            }
-          }
-
-          // Check for errors
-          const isError =
-            result === 'User aborted' ||
-            (typeof result === 'string' && result.startsWith('Error'));
+          const approval = parseApproval(result);
+          const refusal = parseRefusal(result);
 
           updateEvent(toolCallId, {
-            status: isError ? 'error' : 'complete',
+            ...parseToolResult(result),
             duration,
-            result: toolResult,
-            error: isError ? (typeof result === 'string' ? result : 'Unknown error') : undefined,
+            liveOutput: undefined,
+            ...(approval && { approval }),
+            ...(refusal && { refusal }),
           });
 
           processedToolCalls.current.add(stateKey);
           eventStartTimes.current.delete(toolCallId);
+          liveOutputs.current.delete(toolCallId);
         }
       }
     }
   }, [messages, chatStatus, addEvent, updateEvent, setAgentStatus]);
+
+  // Append newly streamed bash output to the running commands' events, and flag calls awaiting approval
+  useEffect(() => {
+    if (!data || data.length < processedDataCount.current) {
+      // Data was reset (new chat or session switch)
+      processedDataCount.current = 0;
+      liveOutputs.current.clear();
+      if (!data) return;
+    }
+
+    const updated = new Set<string>();
+    for (const item of data.slice(processedDataCount.current)) {
+      if (!isBashOutputData(item) && !isApprovalRequestData(item)) continue;
+      // Data arriving after the result is stale
+      if (processedToolCalls.current.has(`${item.toolCallId}-result`)) continue;
+
+      if (isApprovalRequestData(item)) {
+        updateEvent(item.toolCallId, { approval: { status: 'pending', reason: item.reason } });
+        continue;
+      }
+
+      const output = liveOutputs.current.get(item.toolCallId) ?? { stdout: '', stderr: '' };
+      output[item.stream] = (output[item.stream] + item.text).slice(-MAX_LIVE_OUTPUT_CHARS);
+      liveOutputs.current.set(item.toolCallId, output);
+      updated.add(item.toolCallId);
+    }
+    processedDataCount.current = data.length;
+
+    for (const toolCallId of updated) {
+      updateEvent(toolCallId, { liveOutput: { ...liveOutputs.current.get(toolCallId)! } });
+    }
+  }, [data, updateEvent]);
 }
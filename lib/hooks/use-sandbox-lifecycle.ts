@@ -0,0 +1,140 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useSession } from './use-session';
+import type { ChatSession, SandboxState } from '@/lib/types/sessions';
+
+/**
+ * Call a desktop lifecycle route and return the resulting state
+ */
+async function requestSandboxState(
+  route: string,
+  sandboxId: string,
+  method: 'GET' | 'POST' = 'POST',
+): Promise<SandboxState> {
+  const response = await fetch(
+    `/api/${route}?sandboxId=${encodeURIComponent(sandboxId)}`,
+    { method },
+  );
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const { state } = (await response.json()) as { state: SandboxState };
+  return state;
+}
+
+/**
+ * Hook to pause, resume and kill session sandboxes and keep their state in sync
+ */
+export function useSandboxLifecycle() {
+  const { state, updateSession } = useSession();
+
+  // Lifecycle calls are async - always patch the latest copy of a session
+  const sessionsRef = useRef(state.sessions);
+  useEffect(() => {
+    sessionsRef.current = state.sessions;
+  }, [state.sessions]);
+
+  const setSandboxState = useCallback(
+    (sessionId: string, sandboxState: SandboxState) => {
+      const session = sessionsRef.current.find((s) => s.id === sessionId);
+      if (!session) return;
+      // Killed and expired sandboxes can't be reconnected - drop the ID
+      const sandboxId =
+        sandboxState === 'killed' || sandboxState === 'expired'
+          ? null
+          : session.sandboxId;
+      updateSession({ ...session, sandboxId, sandboxState });
+    },
+    [updateSession],
+  );
+
+  /**
+   * Run a lifecycle route for a session's sandbox, toasting failures
+   * Resolves to whether the call succeeded (trivially true without a sandbox).
+   */
+  const runAction = useCallback(
+    async (session: ChatSession, route: string, label: string): Promise<boolean> => {
+      if (!session.sandboxId) return true;
+      try {
+        const sandboxState = await requestSandboxState(route, session.sandboxId);
+        setSandboxState(session.id, sandboxState);
+        return true;
+      } catch (error) {
+        console.error(`Failed to ${label} sandbox:`, error);
+        toast.error(`Failed to ${label} sandbox`, {
+          description: error instanceof Error ? error.message : String(error),
+          duration: 5000,
+        });
+        return false;
+      }
+    },
+    [setSandboxState],
+  );
+
+  const pause = useCallback(
+    (session: ChatSession) => runAction(session, 'pause-desktop', 'pause'),
+    [runAction],
+  );
+
+  const resume = useCallback(
+    (session: ChatSession) => runAction(session, 'resume-desktop', 'resume'),
+    [runAction],
+  );
+
+  const kill = useCallback(
+    (session: ChatSession) => runAction(session, 'kill-desktop', 'kill'),
+    [runAction],
+  );
+
+  /**
+   * Reset the persistent bash shell of a session's sandbox
+   */
+  const restartShell = useCallback(async (session: ChatSession) => {
+    if (!session.sandboxId) return;
+    try {
+      const response = await fetch(
+        `/api/restart-shell?sandboxId=${encodeURIComponent(session.sandboxId)}`,
+        { method: 'POST' },
+      );
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      toast.success('Shell restarted');
+    } catch (error) {
+      console.error('Failed to restart shell:', error);
+      toast.error('Failed to restart shell', {
+        description: error instanceof Error ? error.message : String(error),
+        duration: 5000,
+      });
+    }
+  }, []);
+
+  /**
+   * Re-check the provider state of every session that still has a sandbox
+   */
+  const refreshStates = useCallback(async () => {
+    const sessions = sessionsRef.current.filter(
+      (s) => s.sandboxId && s.sandboxState !== 'creating',
+    );
+    await Promise.all(
+      sessions.map(async (session) => {
+        try {
+          const sandboxState = await requestSandboxState(
+            'desktop-state',
+            session.sandboxId!,
+            'GET',
+          );
+          if (sandboxState !== session.sandboxState) {
+            setSandboxState(session.id, sandboxState);
+          }
+        } catch (error) {
+          console.warn(`Failed to refresh sandbox state for ${session.id}:`, error);
+        }
+      }),
+    );
+  }, [setSandboxState]);
+
+  return { pause, resume, kill, restartShell, refreshStates };
+}
@@ -51,7 +51,10 @@ export function useVNC(activeSession: ChatSession | null): UseVNCReturn {
 
         // Priority: Always try to reuse existing sandboxId if it exists
         const sandboxIdToUse = sandboxIdOverride || session.sandboxId || undefined;
-        const { streamUrl: url, id } = await getDesktopURL(sandboxIdToUse);
+        if (!sandboxIdToUse) {
+          updateSessionRef.current({ ...session, sandboxState: 'creating' });
+        }
+        const { streamUrl: url, id } = await getDesktopURL(sandboxIdToUse, session.resolution);
         
         setStreamUrl(url);
         setSandboxId(id);
@@ -59,8 +62,8 @@ export function useVNC(activeSession: ChatSession | null): UseVNCReturn {
         lastInitializedSessionIdRef.current = session.id;
 
         // Update session with sandbox ID immediately to ensure persistence
-        if (session.sandboxId !== id) {
-          const updated = { ...session, sandboxId: id };
+        if (session.sandboxId !== id || session.sandboxState !== 'running') {
+          const updated = { ...session, sandboxId: id, sandboxState: 'running' as const };
           updateSessionRef.current(updated);
         }
       } catch (error) {
@@ -75,6 +78,9 @@ export function useVNC(activeSession: ChatSession | null): UseVNCReturn {
             setSandboxId(result.id);
             previousSandboxIdRef.current = result.id;
             lastInitializedSessionIdRef.current = session.id;
+          } else if (session.sandboxState === 'creating') {
+            // Creation failed - clear the transient state
+            updateSessionRef.current({ ...session, sandboxState: null });
           }
         }
       } finally {
@@ -100,6 +106,15 @@ export function useVNC(activeSession: ChatSession | null): UseVNCReturn {
       return;
     }
 
+    // Paused and killed sandboxes stay down until the user resumes or replaces them
+    if (activeSession.sandboxState === 'paused' || activeSession.sandboxState === 'killed') {
+      setStreamUrl(null);
+      setSandboxId(null);
+      lastInitializedSessionIdRef.current = activeSession.id;
+      setIsInitializing(false);
+      return;
+    }
+
     // Prevent re-initializing the same session
     if (lastInitializedSessionIdRef.current === activeSession.id) {
       // Check if we still have the correct stream URL for this session
@@ -0,0 +1,14 @@
+/**
+ * Names a secret can be saved under
+ */
+export const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * `{{secret:name}}` anywhere in a text
+ */
+export const PLACEHOLDER_PATTERN = /\{\{secret:([A-Za-z0-9_.-]+)\}\}/g;
+
+/**
+ * Placeholder the model writes in place of a secret's value
+ */
+export const secretPlaceholder = (name: string) => `{{secret:${name}}}`;
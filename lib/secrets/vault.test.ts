@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createSecretScope, saveSecret } from './vault';
+
+describe('createSecretScope', () => {
+  saveSecret('vault-test', 'password', 'secret');
+  saveSecret('vault-test', 'long_password', 'secret-and-more');
+  const secrets = createSecretScope('vault-test');
+
+  it('resolves placeholders and rejects unknown names', () => {
+    expect(secrets.resolve('login {{secret:password}}')).toBe('login secret');
+    expect(() => secrets.resolve('{{secret:nope}}')).toThrow(
+      'Unknown secret nope. Saved secrets: long_password, password',
+    );
+  });
+
+  it('replaces the longest value first', () => {
+    expect(secrets.redact('a secret-and-more b secret')).toBe(
+      'a {{secret:long_password}} b {{secret:password}}',
+    );
+  });
+
+  it('leaves placeholders alone, so redacting twice changes nothing', () => {
+    // "secret" is also part of every placeholder
+    const once = secrets.redact('token=secret');
+    expect(once).toBe('token={{secret:password}}');
+    expect(secrets.redact(once)).toBe(once);
+  });
+
+  it('matches values literally', () => {
+    saveSecret('vault-test-regex', 'pattern', 'a.b*c');
+    expect(createSecretScope('vault-test-regex').redact('aXbc a.b*c')).toBe(
+      'aXbc {{secret:pattern}}',
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { cookies } from 'next/headers';
+import { PLACEHOLDER_PATTERN, SECRET_NAME_PATTERN, secretPlaceholder } from './placeholders';
+
+/**
+ * Cookie naming the browser's vault; httpOnly, so pages can't read it
+ */
+const OWNER_COOKIE = 'secret-vault';
+const OWNER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Shorter values would be redacted all over command output
+ */
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Secrets for one chat request, resolved only where a tool runs its input
+ */
+export interface SecretScope {
+  names: () => string[];
+  resolve: (text: string) => string; // Throws on unknown names
+  redact: (text: string) => string; // Puts placeholders back in place of values
+  maxValueLength: () => number;
+}
+
+/**
+ * Keep vaults on globalThis so the secrets route and the chat route share them
+ * They live in server memory only: a restart empties every vault.
+ */
+const globalForSecrets = globalThis as unknown as {
+  secretVaults?: Map<string, Map<string, string>>;
+};
+const vaults = (globalForSecrets.secretVaults ??= new Map());
+
+/**
+ * Vault owner for the current request, from the vault cookie
+ */
+export async function getSecretOwner(): Promise<string | null> {
+  return (await cookies()).get(OWNER_COOKIE)?.value ?? null;
+}
+
+/**
+ * Vault owner for the current request, giving the browser a new vault if it has none
+ * Only route handlers can set the cookie.
+ */
+export async function ensureSecretOwner(): Promise<string> {
+  const existing = await getSecretOwner();
+  if (existing) return existing;
+
+  const owner = crypto.randomUUID();
+  (await cookies()).set(OWNER_COOKIE, owner, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: OWNER_COOKIE_MAX_AGE,
+  });
+  return owner;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getVault = (owner: string | null): Map<string, string> =>
+  (owner && vaults.get(owner)) || new Map();
+
+/**
+ * Names in an owner's vault; values never leave the server
+ */
+export function listSecretNames(owner: string | null): string[] {
+  return [...getVault(owner).keys()].sort();
+}
+
+/**
+ * Add or replace a secret
+ */
+export function saveSecret(owner: string, name: string, value: string): void {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new Error('Secret names may only use letters, digits, ".", "_" and "-" (at most 64)');
+  }
+  if (value.length < MIN_SECRET_LENGTH) {
+    throw new Error(`Secret values must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  const vault = vaults.get(owner) ?? new Map<string, string>();
+  vault.set(name, value);
+  vaults.set(owner, vault);
+}
+
+/**
+ * Remove a secret; false if there was none by that name
+ */
+export function deleteSecret(owner: string, name: string): boolean {
+  return vaults.get(owner)?.delete(name) ?? false;
+}
+
+/**
+ * Scope over an owner's vault; reads the vault on every call, so secrets saved mid-run apply
+ */
+export function createSecretScope(owner: string | null): SecretScope {
+  const names = () => listSecretNames(owner);
+
+  return {
+    names,
+    resolve: (text) =>
+      text.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+        const value = getVault(owner).get(name);
+        if (value === undefined) {
+          const saved = names();
+          throw new Error(
+            `Unknown secret ${name}. ` +
+              (saved.length > 0 ? `Saved secrets: ${saved.join(', ')}` : 'No secrets are saved.'),
+          );
+        }
+        return value;
+      }),
+    redact: (text) => {
+      const vault = getVault(owner);
+      if (vault.size === 0) return text;
+      const namesByValue = new Map([...vault].map(([name, value]) => [value, name]));
+      // One pass that skips placeholders, so redacting redacted text changes nothing;
+      // values go longest first, so a value containing another is replaced whole
+      const pattern = new RegExp(
+        [
+          PLACEHOLDER_PATTERN.source,
+          ...[...namesByValue.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp),
+        ].join('|'),
+        'g',
+      );
+      return text.replace(pattern, (match) => {
+        const name = namesByValue.get(match);
+        return name === undefined ? match : secretPlaceholder(name);
+      });
+    },
+    maxValueLength: () => Math.max(0, ...[...getVault(owner).values()].map((value) => value.length)),
+  };
+}
@@ -1,5 +1,7 @@
 import type { StoredSession, ChatSession } from '@/lib/types/sessions';
 import {
+  DEFAULT_MAX_WAIT_SECONDS,
+  DEFAULT_RESOLUTION,
   SESSION_STORAGE_KEY,
   SESSION_STORAGE_VERSION,
   generateSessionName,
@@ -183,6 +185,10 @@ class SessionStorage {
       events: session.events || [], // Add events field
       eventIds: session.eventIds || [],
       sandboxId: session.sandboxId || null,
+      sandboxState: session.sandboxState ?? null,
+      resolution: session.resolution ?? DEFAULT_RESOLUTION,
+      maxWaitSeconds: session.maxWaitSeconds ?? DEFAULT_MAX_WAIT_SECONDS,
+      autoScreenshot: session.autoScreenshot ?? 'off',
       version: this.version,
     };
   }
@@ -210,6 +216,10 @@ export function sessionToStored(
     events, // Store full event objects
     eventIds: session.eventIds,
     sandboxId: session.sandboxId,
+    sandboxState: session.sandboxState,
+    resolution: session.resolution,
+    maxWaitSeconds: session.maxWaitSeconds,
+    autoScreenshot: session.autoScreenshot,
     version: SESSION_STORAGE_VERSION,
   };
 }
@@ -226,5 +236,9 @@ export function storedToSession(stored: StoredSession): ChatSession {
     messageIds: stored.messages.map((m) => m.id),
     eventIds: stored.eventIds,
     sandboxId: stored.sandboxId,
+    sandboxState: stored.sandboxState ?? null,
+    resolution: stored.resolution ?? DEFAULT_RESOLUTION,
+    maxWaitSeconds: stored.maxWaitSeconds ?? DEFAULT_MAX_WAIT_SECONDS,
+    autoScreenshot: stored.autoScreenshot ?? 'off',
   };
 }
@@ -1,12 +1,21 @@
+import type { AccessibilityTree } from '@/lib/desktop/accessibility';
+import type {
+  BackgroundProcess,
+  BackgroundProcessOutput,
+} from '@/lib/desktop/processes';
+import type { ScreenRegion } from '@/lib/desktop/scaling';
+import type { DiffLine } from '@/lib/utils/diff';
+import type { ScreenResolution } from './sessions';
+
 /**
  * Event status types
  */
-export type EventStatus = 'pending' | 'complete' | 'error';
+export type EventStatus = 'pending' | 'complete' | 'error' | 'blocked'; // blocked: refused by the command policy
 
 /**
  * Tool type discriminator
  */
-export type ToolType = 'computer' | 'bash';
+export type ToolType = 'computer' | 'bash' | 'process' | 'text_editor' | 'browser';
 
 /**
  * Computer action types
@@ -15,12 +24,21 @@ export type ComputerAction =
   | 'screenshot'
   | 'left_click'
   | 'right_click'
+  | 'middle_click'
   | 'double_click'
+  | 'triple_click'
+  | 'left_mouse_down'
+  | 'left_mouse_up'
   | 'mouse_move'
+  | 'cursor_position'
   | 'type'
   | 'key'
+  | 'hold_key'
   | 'scroll'
   | 'wait'
+  | 'wait_until_stable' // Separate tool, tracked as a computer action
+  | 'zoom' // Separate tool, tracked as a computer action
+  | 'accessibility_tree' // Separate tool, tracked as a computer action
   | 'left_click_drag';
 
 /**
@@ -32,8 +50,10 @@ export interface ComputerEventPayload {
   text?: string;
   duration?: number;
   scroll_amount?: number;
-  scroll_direction?: 'up' | 'down';
+  scroll_direction?: 'up' | 'down' | 'left' | 'right';
   start_coordinate?: [number, number];
+  region?: ScreenRegion; // zoom
+  app?: string; // accessibility_tree application filter
 }
 
 /**
@@ -41,16 +61,193 @@ export interface ComputerEventPayload {
  */
 export interface BashEventPayload {
   command: string;
+  restart?: boolean;
+}
+
+/**
+ * Background process tool actions
+ */
+export type ProcessAction = 'start' | 'poll' | 'wait' | 'kill' | 'list';
+
+/**
+ * Process event payload
+ */
+export interface ProcessEventPayload {
+  action: ProcessAction;
+  command?: string;
+  process_id?: string;
+  timeout_seconds?: number;
+}
+
+/**
+ * Text editor tool commands
+ */
+export type TextEditorCommand = 'view' | 'create' | 'str_replace' | 'insert' | 'undo_edit';
+
+/**
+ * Text editor event payload
+ */
+export interface TextEditorEventPayload {
+  command: TextEditorCommand;
+  path: string;
+  file_text?: string;
+  insert_line?: number;
+  new_str?: string;
+  old_str?: string;
+  view_range?: number[];
+}
+
+/**
+ * Outcome of a text editor command
+ */
+export interface TextEditorResult {
+  output: string; // What the model was shown
+  diff?: DiffLine[]; // For commands that changed the file
+}
+
+/**
+ * Browser tool actions
+ */
+export type BrowserAction = 'navigate' | 'get_url' | 'get_text' | 'get_dom' | 'click' | 'fill';
+
+/**
+ * Browser event payload
+ */
+export interface BrowserEventPayload {
+  action: BrowserAction;
+  url?: string;
+  selector?: string;
+  value?: string;
+}
+
+/**
+ * Page state after a browser action
+ */
+export interface BrowserResult {
+  url: string;
+  title: string;
+  content?: string; // Text or simplified HTML for get_text and get_dom
+  contentTruncated?: boolean;
+}
+
+/**
+ * Structured output of a bash command
+ */
+export interface BashCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number; // -1 when the command could not be run at all
+  durationMs: number;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+  cwd?: string; // Working directory of the persistent shell afterwards
+  restarted?: boolean; // The shell was reset before running
+  timedOut?: boolean; // Stopped after the bash timeout
+  aborted?: boolean; // Killed because the user stopped the run
+  error?: string; // Why the command could not be run
+}
+
+/**
+ * Chunk of bash output sent on the chat data stream while the command runs
+ * A type alias rather than an interface so it is assignable to the stream's JSONValue.
+ */
+export type BashOutputData = {
+  type: 'bash-output';
+  toolCallId: string;
+  stream: 'stdout' | 'stderr';
+  text: string;
+};
+
+/**
+ * Live output kept per stream, matching what the bash tool returns
+ */
+export const MAX_LIVE_OUTPUT_CHARS = 20000;
+
+/**
+ * Output streamed so far for a running bash command
+ */
+export interface BashLiveOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Where a zoom crop came from, to outline it on the screenshot the model saw
+ */
+export interface ZoomResult {
+  region: ScreenRegion; // Clamped to the screenshot
+  screenshotSize: ScreenResolution;
+}
+
+/**
+ * Where a tool call stands with the approval policy
+ * `expired` calls got no decision in time; like denied calls, they never ran.
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'edited' | 'denied' | 'expired';
+
+/**
+ * Approval decision recorded on an event
+ */
+export interface ApprovalRecord {
+  status: ApprovalStatus;
+  reason: string; // Policy rule that asked for approval
+  edits?: Record<string, string>; // Arguments the user changed before approving
+  decidedAt?: number;
+}
+
+/**
+ * Sent on the chat data stream when a tool call waits for the user
+ */
+export type ApprovalRequestData = {
+  type: 'approval-request';
+  toolCallId: string;
+  reason: string;
+};
+
+/**
+ * Command policy rule that refused a shell command
+ */
+export interface CommandRefusal {
+  rule: string; // Built-in rule name, binary:<name>, pattern:<regex>, allowlist or invalid-policy
+  reason: string;
+}
+
+/**
+ * Free-text arguments of held calls: computer `text`, bash and process `command`, browser fill `value`
+ * Enums, URLs and selectors aren't editable: an edit would skip schema validation and the approval checks run on them.
+ */
+const EDITABLE_APPROVAL_FIELDS = ['text', 'command', 'value'];
+
+/**
+ * Arguments the user may change when approving: free text, not the action or its target
+ */
+export function getEditableApprovalFields(args: object): string[] {
+  return Object.entries(args)
+    .filter(([key, value]) => EDITABLE_APPROVAL_FIELDS.includes(key) && typeof value === 'string')
+    .map(([key]) => key);
 }
 
+/**
+ * Areas of a screenshot blurred by the redaction policy, counted by what matched: region, window, email, ...
+ */
+export type ScreenshotRedactions = Record<string, number>;
+
 /**
  * Tool result types
  */
 export interface ToolResult {
-  type: 'text' | 'image';
-  data?: string; // base64 for images
+  type: 'text' | 'image' | 'bash' | 'process' | 'text_editor' | 'accessibility' | 'browser';
+  data?: string; // base64 for images, or a screenshot taken after a text-result action
   text?: string; // text content
-  mimeType?: string; // for images
+  mimeType?: string; // for images and attached screenshots, e.g. image/jpeg
+  redactions?: ScreenshotRedactions; // for screenshots with blurred areas
+  bash?: BashCommandResult; // for bash commands
+  process?: BackgroundProcess | BackgroundProcessOutput; // for process actions on one handle
+  processes?: BackgroundProcess[]; // for process list actions
+  textEditor?: TextEditorResult; // for text editor commands
+  zoom?: ZoomResult; // for zoom crops
+  accessibility?: AccessibilityTree; // for accessibility tree dumps
+  browser?: BrowserResult; // for browser actions
 }
 
 /**
@@ -66,6 +263,7 @@ export interface ComputerEvent {
   duration?: number;
   error?: string;
   result?: ToolResult;
+  approval?: ApprovalRecord; // Set when the approval policy held the call
 }
 
 /**
@@ -81,17 +279,73 @@ export interface BashEvent {
   duration?: number;
   error?: string;
   result?: ToolResult;
+  approval?: ApprovalRecord; // Set when the approval policy held the call
+  refusal?: CommandRefusal; // Set when the command policy refused the command
+  liveOutput?: BashLiveOutput; // Cleared once the result arrives
+}
+
+/**
+ * Background process event - discriminated union member
+ */
+export interface ProcessEvent {
+  id: string;
+  timestamp: number;
+  type: 'process';
+  toolType: 'process';
+  payload: ProcessEventPayload;
+  status: EventStatus;
+  duration?: number;
+  error?: string;
+  result?: ToolResult;
+  approval?: ApprovalRecord; // Set when the approval policy held the call
+  refusal?: CommandRefusal; // Set when the command policy refused the command
+}
+
+/**
+ * Text editor event - discriminated union member
+ */
+export interface TextEditorEvent {
+  id: string;
+  timestamp: number;
+  type: 'text_editor';
+  toolType: 'text_editor';
+  payload: TextEditorEventPayload;
+  status: EventStatus;
+  duration?: number;
+  error?: string;
+  result?: ToolResult;
+}
+
+/**
+ * Browser event - discriminated union member
+ */
+export interface BrowserEvent {
+  id: string;
+  timestamp: number;
+  type: 'browser';
+  toolType: 'browser';
+  payload: BrowserEventPayload;
+  status: EventStatus;
+  duration?: number;
+  error?: string;
+  result?: ToolResult;
+  approval?: ApprovalRecord; // Set when the approval policy held the call
 }
 
 /**
  * Agent event - discriminated union
  */
-export type AgentEvent = ComputerEvent | BashEvent;
+export type AgentEvent =
+  | ComputerEvent
+  | BashEvent
+  | ProcessEvent
+  | TextEditorEvent
+  | BrowserEvent;
 
 /**
- * Action type for counts (includes all computer actions + bash)
+ * Action type for counts (includes all computer actions + bash, process, text_editor and browser)
  */
-export type ActionType = ComputerAction | 'bash';
+export type ActionType = ComputerAction | 'bash' | 'process' | 'text_editor' | 'browser';
 
 /**
  * Event counts by action type
@@ -124,6 +378,34 @@ export function isBashEvent(event: AgentEvent): event is BashEvent {
   return event.type === 'bash';
 }
 
+export function isProcessEvent(event: AgentEvent): event is ProcessEvent {
+  return event.type === 'process';
+}
+
+export function isTextEditorEvent(event: AgentEvent): event is TextEditorEvent {
+  return event.type === 'text_editor';
+}
+
+export function isBrowserEvent(event: AgentEvent): event is BrowserEvent {
+  return event.type === 'browser';
+}
+
+export function isBashOutputData(value: unknown): value is BashOutputData {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { type?: unknown }).type === 'bash-output'
+  );
+}
+
+export function isApprovalRequestData(value: unknown): value is ApprovalRequestData {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { type?: unknown }).type === 'approval-request'
+  );
+}
+
 /**
  * Create initial event counts
  */
@@ -132,13 +414,25 @@ export function createInitialEventCounts(): EventCounts {
     screenshot: 0,
     left_click: 0,
     right_click: 0,
+    middle_click: 0,
     double_click: 0,
+    triple_click: 0,
+    left_mouse_down: 0,
+    left_mouse_up: 0,
     mouse_move: 0,
+    cursor_position: 0,
     type: 0,
     key: 0,
+    hold_key: 0,
     scroll: 0,
     wait: 0,
+    wait_until_stable: 0,
+    zoom: 0,
+    accessibility_tree: 0,
     left_click_drag: 0,
     bash: 0,
+    process: 0,
+    text_editor: 0,
+    browser: 0,
   };
 }
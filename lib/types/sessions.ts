@@ -1,6 +1,61 @@
 import type { UIMessage } from 'ai';
 import type { AgentEvent } from './events';
 
+/**
+ * Sandbox lifecycle state
+ */
+export type SandboxState = 'creating' | 'running' | 'paused' | 'killed' | 'expired';
+
+/**
+ * Desktop screen resolution in pixels
+ */
+export interface ScreenResolution {
+  x: number;
+  y: number;
+}
+
+/**
+ * Resolution used when a session doesn't choose one
+ */
+export const DEFAULT_RESOLUTION: ScreenResolution = { x: 1024, y: 768 };
+
+/**
+ * Resolutions offered when creating a session
+ */
+export const RESOLUTION_PRESETS: ScreenResolution[] = [
+  { x: 1024, y: 768 },
+  { x: 1280, y: 800 },
+  { x: 1440, y: 900 },
+  { x: 1920, y: 1080 },
+  { x: 2560, y: 1600 },
+];
+
+/**
+ * Whether a resolution from a request is one of the presets
+ */
+export function isResolutionPreset(value: unknown): value is ScreenResolution {
+  const { x, y } = (value ?? {}) as Partial<ScreenResolution>;
+  return RESOLUTION_PRESETS.some((preset) => preset.x === x && preset.y === y);
+}
+
+/**
+ * Longest wait/hold_key action a session allows by default, in seconds
+ */
+export const DEFAULT_MAX_WAIT_SECONDS = 2;
+
+/**
+ * Wait caps offered per session, in seconds
+ */
+export const MAX_WAIT_PRESETS = [2, 5, 10, 30, 60];
+
+/**
+ * Which computer actions get a screenshot attached to their result
+ * `clicks` covers clicks and drags; `all` also covers typing, key presses and scrolling.
+ */
+export type AutoScreenshotMode = 'off' | 'clicks' | 'all';
+
+export const AUTO_SCREENSHOT_MODES: AutoScreenshotMode[] = ['off', 'clicks', 'all'];
+
 /**
  * Chat session metadata
  */
@@ -12,6 +67,10 @@ export interface ChatSession {
   messageIds: string[]; // References to message IDs
   eventIds: string[]; // References to event IDs
   sandboxId: string | null;
+  sandboxState: SandboxState | null;
+  resolution: ScreenResolution;
+  maxWaitSeconds: number; // Cap for the computer tool's wait and hold_key actions
+  autoScreenshot: AutoScreenshotMode;
 }
 
 /**
@@ -26,6 +85,10 @@ export interface StoredSession {
   events: AgentEvent[]; // Full event objects
   eventIds: string[];
   sandboxId: string | null;
+  sandboxState?: SandboxState | null;
+  resolution?: ScreenResolution;
+  maxWaitSeconds?: number;
+  autoScreenshot?: AutoScreenshotMode;
   version: string; // Schema version for migrations
 }
 
@@ -100,6 +163,7 @@ export function createSession(
   id: string,
   name: string,
   sandboxId: string | null = null,
+  resolution: ScreenResolution = DEFAULT_RESOLUTION,
 ): ChatSession {
   const now = Date.now();
   return {
@@ -110,5 +174,9 @@ export function createSession(
     messageIds: [],
     eventIds: [],
     sandboxId,
+    sandboxState: sandboxId ? 'running' : null,
+    resolution,
+    maxWaitSeconds: DEFAULT_MAX_WAIT_SECONDS,
+    autoScreenshot: 'off',
   };
 }
@@ -18,8 +18,9 @@ export const prunedMessages = (messages: UIMessage[]): UIMessage[] => {
     message.parts = message.parts.map((part) => {
       if (part.type === "tool-invocation") {
         if (
-          part.toolInvocation.toolName === "computer" &&
-          part.toolInvocation.args.action === "screenshot"
+          (part.toolInvocation.toolName === "computer" &&
+            part.toolInvocation.args.action === "screenshot") ||
+          part.toolInvocation.toolName === "zoom"
         ) {
           return {
             ...part,
@@ -32,6 +33,24 @@ export const prunedMessages = (messages: UIMessage[]): UIMessage[] => {
             },
           };
         }
+        // Screenshots attached to action results are redacted the same way
+        if (
+          part.toolInvocation.toolName === "computer" &&
+          part.toolInvocation.state === "result" &&
+          part.toolInvocation.result?.type === "text" &&
+          part.toolInvocation.result.data
+        ) {
+          return {
+            ...part,
+            toolInvocation: {
+              ...part.toolInvocation,
+              result: {
+                type: "text",
+                text: `${part.toolInvocation.result.text} (screenshot redacted to save input tokens)`,
+              },
+            },
+          };
+        }
         return part;
       }
       return part;
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+
+const numbered = (count: number, prefix = 'line') =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`).join('\n');
+
+describe('diffLines', () => {
+  it('numbers added lines in the new text only', () => {
+    expect(diffLines('a\nb\n', 'a\nb\nc\n')).toEqual([
+      { type: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'context', text: 'b', oldLine: 2, newLine: 2 },
+      { type: 'add', text: 'c', newLine: 3 },
+    ]);
+  });
+
+  it('numbers removed lines in the old text only', () => {
+    expect(diffLines('a\nb\nc', 'a\nc')).toEqual([
+      { type: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2 },
+      { type: 'context', text: 'c', oldLine: 3, newLine: 2 },
+    ]);
+  });
+
+  it('shows a changed line as a removal followed by an addition', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { type: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2 },
+      { type: 'add', text: 'B', newLine: 2 },
+      { type: 'context', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('keeps only the context lines around each change', () => {
+    const before = numbered(20);
+    const after = before.replace('line 5\n', 'line five\n').replace('line 16\n', '');
+
+    expect(diffLines(before, after)).toEqual([
+      { type: 'skip', text: '' },
+      { type: 'context', text: 'line 2', oldLine: 2, newLine: 2 },
+      { type: 'context', text: 'line 3', oldLine: 3, newLine: 3 },
+      { type: 'context', text: 'line 4', oldLine: 4, newLine: 4 },
+      { type: 'remove', text: 'line 5', oldLine: 5 },
+      { type: 'add', text: 'line five', newLine: 5 },
+      { type: 'context', text: 'line 6', oldLine: 6, newLine: 6 },
+      { type: 'context', text: 'line 7', oldLine: 7, newLine: 7 },
+      { type: 'context', text: 'line 8', oldLine: 8, newLine: 8 },
+      { type: 'skip', text: '' },
+      { type: 'context', text: 'line 13', oldLine: 13, newLine: 13 },
+      { type: 'context', text: 'line 14', oldLine: 14, newLine: 14 },
+      { type: 'context', text: 'line 15', oldLine: 15, newLine: 15 },
+      { type: 'remove', text: 'line 16', oldLine: 16 },
+      { type: 'context', text: 'line 17', oldLine: 17, newLine: 16 },
+      { type: 'context', text: 'line 18', oldLine: 18, newLine: 17 },
+      { type: 'context', text: 'line 19', oldLine: 19, newLine: 18 },
+      { type: 'skip', text: '' },
+    ]);
+  });
+
+  it('takes the number of context lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc', 0)).toEqual([
+      { type: 'skip', text: '' },
+      { type: 'remove', text: 'b', oldLine: 2 },
+      { type: 'add', text: 'B', newLine: 2 },
+      { type: 'skip', text: '' },
+    ]);
+  });
+
+  it('matches unchanged lines between changes', () => {
+    const types = diffLines('x\na\ny\nb\nz', 'a\nb\nc').map(({ type, text }) => `${type} ${text}`);
+
+    expect(types).toEqual(['remove x', 'context a', 'remove y', 'context b', 'remove z', 'add c']);
+  });
+
+  it.each([
+    ['identical texts', 'a\nb', 'a\nb'],
+    ['a final newline', 'a\nb', 'a\nb\n'],
+    ['two empty texts', '', ''],
+  ])('is empty for %s', (_, before, after) => {
+    expect(diffLines(before, after)).toEqual([]);
+  });
+
+  it('adds every line of a new file', () => {
+    expect(diffLines('', 'a\nb\n')).toEqual([
+      { type: 'add', text: 'a', newLine: 1 },
+      { type: 'add', text: 'b', newLine: 2 },
+    ]);
+  });
+
+  it('shows large rewrites as removing everything, then adding everything, cut off with a skip', () => {
+    const lines = diffLines(numbered(600, 'old'), numbered(600, 'new'));
+
+    expect(lines).toHaveLength(401);
+    expect(lines.slice(0, 400).every((line) => line.type === 'remove')).toBe(true);
+    expect(lines.at(-1)).toEqual({ type: 'skip', text: '' });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * One line of a rendered diff
+ * `skip` stands in for a run of unchanged lines outside the context window.
+ */
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove' | 'skip';
+  text: string;
+  oldLine?: number; // 1-based, for context and removed lines
+  newLine?: number; // 1-based, for context and added lines
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+const MAX_DIFF_LINES = 400; // Longer diffs end in a skip marker
+const MAX_LCS_CELLS = 250_000; // Larger changed regions are shown as remove-all/add-all
+
+/**
+ * Split text into lines, ignoring the final newline
+ */
+const splitLines = (text: string) => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+
+/**
+ * Line diff of the changed region between two texts, using a longest common subsequence
+ */
+function diffRegion(before: string[], after: string[]): Array<Pick<DiffLine, 'type' | 'text'>> {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    return [
+      ...before.map((text) => ({ type: 'remove' as const, text })),
+      ...after.map((text) => ({ type: 'add' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of before[i:] and after[j:]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: Array<Pick<DiffLine, 'type' | 'text'>> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ type: 'context', text: before[i] });
+      i++;
+      j++;
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: 'remove', text: before[i] });
+      i++;
+    } else {
+      lines.push({ type: 'add', text: after[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Diff two texts line by line, keeping `context` unchanged lines around each change
+ */
+export function diffLines(
+  before: string,
+  after: string,
+  context = DEFAULT_CONTEXT_LINES,
+): DiffLine[] {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+
+  // Edits are usually local, so only the region between the common prefix and suffix is diffed
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops = [
+    ...oldLines.slice(0, prefix).map((text) => ({ type: 'context' as const, text })),
+    ...diffRegion(
+      oldLines.slice(prefix, oldLines.length - suffix),
+      newLines.slice(prefix, newLines.length - suffix),
+    ),
+    ...oldLines.slice(oldLines.length - suffix).map((text) => ({ type: 'context' as const, text })),
+  ];
+
+  // Number the lines, then drop context that is too far from any change
+  let oldLine = 1;
+  let newLine = 1;
+  const numbered: DiffLine[] = ops.map((op) => {
+    const line: DiffLine = { ...op };
+    if (op.type !== 'add') line.oldLine = oldLine++;
+    if (op.type !== 'remove') line.newLine = newLine++;
+    return line;
+  });
+  const changed = numbered.map((line) => line.type !== 'context');
+  if (!changed.some(Boolean)) return [];
+  const isNearChange = (index: number) =>
+    changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(Boolean);
+
+  const lines: DiffLine[] = [];
+  numbered.forEach((line, index) => {
+    if (line.type !== 'context' || isNearChange(index)) {
+      lines.push(line);
+    } else if (lines.at(-1)?.type !== 'skip') {
+      lines.push({ type: 'skip', text: '' });
+    }
+  });
+
+  if (lines.length > MAX_DIFF_LINES) {
+    return [...lines.slice(0, MAX_DIFF_LINES), { type: 'skip', text: '' }];
+  }
+  return lines;
+}
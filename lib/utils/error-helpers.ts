@@ -112,3 +112,25 @@ export function extractRetryAfter(error: unknown): number | null {
   
   return null;
 }
+
+/**
+ * Error code the chat route returns when the session's desktop isn't running
+ */
+export const DESKTOP_UNAVAILABLE = 'desktop-unavailable';
+
+/**
+ * Get the message of a chat error caused by a desktop that isn't running
+ * useChat reports the route's JSON response body as the error message.
+ * Returns null for any other error.
+ */
+export function getDesktopUnavailableMessage(error: unknown): string | null {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(errorMessage) as { code?: unknown; error?: unknown };
+    return body.code === DESKTOP_UNAVAILABLE && typeof body.error === 'string'
+      ? body.error
+      : null;
+  } catch {
+    return null;
+  }
+}
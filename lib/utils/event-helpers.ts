@@ -1,5 +1,37 @@
-import type { AgentEvent, EventCounts, ActionType } from '@/lib/types/events';
-import { createInitialEventCounts, isComputerEvent, isBashEvent } from '@/lib/types/events';
+import type { AccessibilityTree } from '@/lib/desktop/accessibility';
+import type {
+  AgentEvent,
+  ApprovalRecord,
+  BashCommandResult,
+  EventCounts,
+  ActionType,
+  BashEvent,
+  BashEventPayload,
+  BrowserEvent,
+  BrowserEventPayload,
+  BrowserResult,
+  CommandRefusal,
+  ComputerEvent,
+  ComputerEventPayload,
+  EventStatus,
+  ProcessEvent,
+  ProcessEventPayload,
+  ScreenshotRedactions,
+  TextEditorEvent,
+  TextEditorEventPayload,
+  TextEditorResult,
+  ToolResult,
+  ZoomResult,
+} from '@/lib/types/events';
+import {
+  createInitialEventCounts,
+  isComputerEvent,
+  isBashEvent,
+  isProcessEvent,
+  isTextEditorEvent,
+  isBrowserEvent,
+} from '@/lib/types/events';
+import { ABORTED } from '@/lib/utils';
 
 /**
  * Calculate event counts from an array of events
@@ -13,8 +45,361 @@ export function calculateEventCounts(events: AgentEvent[]): EventCounts {
       counts[actionType] = (counts[actionType] || 0) + 1;
     } else if (isBashEvent(event)) {
       counts.bash = (counts.bash || 0) + 1;
+    } else if (isProcessEvent(event)) {
+      counts.process = (counts.process || 0) + 1;
+    } else if (isTextEditorEvent(event)) {
+      counts.text_editor = (counts.text_editor || 0) + 1;
+    } else if (isBrowserEvent(event)) {
+      counts.browser = (counts.browser || 0) + 1;
     }
   });
   
   return counts;
 }
+
+/**
+ * Create a pending event from a tool call
+ * Returns null for tools that are not tracked
+ */
+export function createEventFromToolCall(
+  toolCallId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  timestamp: number,
+): AgentEvent | null {
+  if (toolName === 'computer') {
+    const payload: ComputerEventPayload = {
+      action: args.action as ComputerEventPayload['action'],
+      coordinate: args.coordinate as [number, number] | undefined,
+      text: args.text as string | undefined,
+      duration: args.duration as number | undefined,
+      scroll_amount: args.scroll_amount as number | undefined,
+      scroll_direction: args.scroll_direction as ComputerEventPayload['scroll_direction'],
+      start_coordinate: args.start_coordinate as
+        | [number, number]
+        | undefined,
+    };
+
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'computer',
+      toolType: 'computer',
+      payload,
+      status: 'pending',
+    } satisfies ComputerEvent;
+  }
+
+  if (toolName === 'wait_until_stable') {
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'computer',
+      toolType: 'computer',
+      payload: {
+        action: 'wait_until_stable',
+        duration: args.timeout_seconds as number | undefined,
+      },
+      status: 'pending',
+    } satisfies ComputerEvent;
+  }
+
+  if (toolName === 'zoom') {
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'computer',
+      toolType: 'computer',
+      payload: {
+        action: 'zoom',
+        region: args.region as ComputerEventPayload['region'],
+      },
+      status: 'pending',
+    } satisfies ComputerEvent;
+  }
+
+  if (toolName === 'accessibility_tree') {
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'computer',
+      toolType: 'computer',
+      payload: {
+        action: 'accessibility_tree',
+        app: args.app as string | undefined,
+      },
+      status: 'pending',
+    } satisfies ComputerEvent;
+  }
+
+  if (toolName === 'bash') {
+    const payload: BashEventPayload = {
+      command: args.command as string,
+      restart: args.restart as boolean | undefined,
+    };
+
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'bash',
+      toolType: 'bash',
+      payload,
+      status: 'pending',
+    } satisfies BashEvent;
+  }
+
+  if (toolName === 'process') {
+    const payload: ProcessEventPayload = {
+      action: args.action as ProcessEventPayload['action'],
+      command: args.command as string | undefined,
+      process_id: args.process_id as string | undefined,
+      timeout_seconds: args.timeout_seconds as number | undefined,
+    };
+
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'process',
+      toolType: 'process',
+      payload,
+      status: 'pending',
+    } satisfies ProcessEvent;
+  }
+
+  // Anthropic's text editor tool has to be registered under this name
+  if (toolName === 'str_replace_editor') {
+    const payload: TextEditorEventPayload = {
+      command: args.command as TextEditorEventPayload['command'],
+      path: args.path as string,
+      file_text: args.file_text as string | undefined,
+      insert_line: args.insert_line as number | undefined,
+      new_str: args.new_str as string | undefined,
+      old_str: args.old_str as string | undefined,
+      view_range: args.view_range as number[] | undefined,
+    };
+
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'text_editor',
+      toolType: 'text_editor',
+      payload,
+      status: 'pending',
+    } satisfies TextEditorEvent;
+  }
+
+  if (toolName === 'browser') {
+    const payload: BrowserEventPayload = {
+      action: args.action as BrowserEventPayload['action'],
+      url: args.url as string | undefined,
+      selector: args.selector as string | undefined,
+      value: args.value as string | undefined,
+    };
+
+    return {
+      id: toolCallId,
+      timestamp,
+      type: 'browser',
+      toolType: 'browser',
+      payload,
+      status: 'pending',
+    } satisfies BrowserEvent;
+  }
+
+  return null;
+}
+
+/**
+ * Image type of a screenshot result; results saved before formats were configurable are PNG
+ */
+const mimeTypeOf = (result: object) =>
+  'mimeType' in result && typeof result.mimeType === 'string' ? result.mimeType : 'image/png';
+
+/**
+ * Approval decision carried by a tool result, if the policy held the call
+ */
+export function parseApproval(result: unknown): ApprovalRecord | undefined {
+  return typeof result === 'object' && result !== null && 'approval' in result
+    ? (result.approval as ApprovalRecord | undefined)
+    : undefined;
+}
+
+/**
+ * Command policy refusal carried by a bash or process result
+ */
+export function parseRefusal(result: unknown): CommandRefusal | undefined {
+  return typeof result === 'object' && result !== null && 'refusal' in result
+    ? (result.refusal as CommandRefusal | undefined)
+    : undefined;
+}
+
+/**
+ * Convert a raw tool result into event status, result and error
+ */
+export function parseToolResult(result: unknown): {
+  status: EventStatus;
+  result?: ToolResult;
+  error?: string;
+} {
+  // Refused commands never ran, and get their own status
+  const refusal = parseRefusal(result);
+  if (refusal) {
+    return { status: 'blocked', error: refusal.reason };
+  }
+
+  // Calls the user turned down never ran
+  const approval = parseApproval(result);
+  if (approval?.status === 'denied' || approval?.status === 'expired') {
+    return {
+      status: 'error',
+      error: approval.status === 'denied' ? 'Denied by the user' : 'No approval in time',
+    };
+  }
+
+  // Determine result type
+  let toolResult: ToolResult | undefined;
+
+  if (result) {
+    if (typeof result === 'string') {
+      toolResult = { type: 'text', text: result };
+    } else if (
+      typeof result === 'object' &&
+      result !== null &&
+      'type' in result
+    ) {
+      if (result.type === 'image' && 'data' in result) {
+        toolResult = {
+          type: 'image',
+          data: result.data as string,
+          mimeType: mimeTypeOf(result),
+        };
+        if ('zoom' in result) {
+          toolResult.zoom = result.zoom as ZoomResult;
+        }
+        if ('redactions' in result && result.redactions) {
+          toolResult.redactions = result.redactions as ScreenshotRedactions;
+        }
+      } else if (result.type === 'text' && 'text' in result) {
+        toolResult = {
+          type: 'text',
+          text: result.text as string,
+        };
+        // Screenshot taken after the action
+        if ('data' in result && result.data) {
+          toolResult.data = result.data as string;
+          toolResult.mimeType = mimeTypeOf(result);
+        }
+        if ('redactions' in result && result.redactions) {
+          toolResult.redactions = result.redactions as ScreenshotRedactions;
+        }
+      } else if (result.type === 'bash' && 'exitCode' in result) {
+        const bash = result as unknown as BashCommandResult;
+        toolResult = {
+          type: 'bash',
+          bash: {
+            stdout: bash.stdout,
+            stderr: bash.stderr,
+            exitCode: bash.exitCode,
+            durationMs: bash.durationMs,
+            stdoutTruncated: bash.stdoutTruncated,
+            stderrTruncated: bash.stderrTruncated,
+            cwd: bash.cwd,
+            restarted: bash.restarted,
+            timedOut: bash.timedOut,
+            aborted: bash.aborted,
+            error: bash.error,
+          },
+        };
+      }
+    }
+  }
+
+  // Process actions fail only when the tool itself reports an error
+  if (
+    typeof result === 'object' &&
+    result !== null &&
+    'type' in result &&
+    result.type === 'process'
+  ) {
+    const { process, processes, error } = result as Pick<
+      ToolResult,
+      'process' | 'processes'
+    > & { error?: string };
+    return {
+      status: error ? 'error' : 'complete',
+      result: { type: 'process', process, processes },
+      error,
+    };
+  }
+
+  // Text editor commands report misuse (missing file, ambiguous old_str) as an error
+  if (
+    typeof result === 'object' &&
+    result !== null &&
+    'type' in result &&
+    result.type === 'text_editor'
+  ) {
+    const { output, diff, error } = result as unknown as TextEditorResult & { error?: string };
+    return {
+      status: error ? 'error' : 'complete',
+      result: { type: 'text_editor', textEditor: { output, diff } },
+      error,
+    };
+  }
+
+  // Accessibility dumps fail when AT-SPI is missing or the script errors
+  if (
+    typeof result === 'object' &&
+    result !== null &&
+    'type' in result &&
+    result.type === 'accessibility'
+  ) {
+    const { output, tree, error } = result as unknown as {
+      output: string;
+      tree?: AccessibilityTree;
+      error?: string;
+    };
+    return {
+      status: error ? 'error' : 'complete',
+      result: { type: 'accessibility', text: output, accessibility: tree },
+      error,
+    };
+  }
+
+  // Browser actions fail when Chrome can't be reached or the page rejects the action
+  if (
+    typeof result === 'object' &&
+    result !== null &&
+    'type' in result &&
+    result.type === 'browser'
+  ) {
+    const { page, error } = result as { page?: BrowserResult; error?: string };
+    return {
+      status: error ? 'error' : 'complete',
+      result: { type: 'browser', browser: page },
+      error,
+    };
+  }
+
+  // Bash status comes from the exit code
+  if (toolResult?.bash) {
+    const { exitCode, error } = toolResult.bash;
+    const isError = exitCode !== 0;
+    return {
+      status: isError ? 'error' : 'complete',
+      result: toolResult,
+      error: isError ? error || `Command exited with code ${exitCode}` : undefined,
+    };
+  }
+
+  // Check for errors
+  const isError =
+    result === ABORTED ||
+    (typeof result === 'string' && result.startsWith('Error'));
+
+  return {
+    status: isError ? 'error' : 'complete',
+    result: toolResult,
+    error: isError ? (typeof result === 'string' ? result : 'Unknown error') : undefined,
+  };
+}
@@ -33,11 +33,11 @@ export async function handleDesktopError(
   
   // Try to create a new sandbox
   try {
-    const { streamUrl, id } = await getDesktopURL(undefined);
+    const { streamUrl, id } = await getDesktopURL(undefined, activeSession?.resolution);
     
     // Update session with new sandboxId
     if (activeSession) {
-      const updated = { ...activeSession, sandboxId: id };
+      const updated = { ...activeSession, sandboxId: id, sandboxState: 'running' as const };
       updateSession(updated);
     }
     